@@ -0,0 +1,504 @@
+/**
+ * ZMK Bridge
+ * Shares a connected device with other windows (iframes, popups) over postMessage
+ */
+
+import { call_rpc, Request, Response } from "@zmkfirmware/zmk-studio-ts-client";
+import type { RequestResponse } from "@zmkfirmware/zmk-studio-ts-client";
+import type { CustomSubsystem } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import {
+  get_decoder,
+  get_encoder,
+} from "@zmkfirmware/zmk-studio-ts-client/framing";
+import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+import type { UseZMKAppReturn } from "./useZMKApp";
+import { withTimeout } from "./utils";
+import type { ZMKTimeoutOperation } from "./utils";
+import { getConnectionSignal, RPC_NOT_FOUND } from "./rpc";
+import {
+  ZMKCustomSubsystem,
+  ZMKCustomSubsystemError,
+} from "./ZMKCustomSubsystem";
+import { getZMKRequestScheduler } from "./ZMKRequestScheduler";
+
+/**
+ * Messages exchanged between bridge clients and the host
+ * "zmk-bridge:connect" is posted to the host window with a MessagePort; all
+ * other messages travel over that port.
+ */
+export type ZMKBridgeMessage =
+  | { type: "zmk-bridge:connect" }
+  | { type: "zmk-bridge:accepted" }
+  | { type: "zmk-bridge:rejected"; reason: string }
+  | { type: "zmk-bridge:data"; bytes: Uint8Array }
+  | { type: "zmk-bridge:close" };
+
+export interface ZMKBridgeHostOptions {
+  /** Origins of the windows allowed to connect */
+  allowedOrigins: string[];
+  /** Identifiers of the custom subsystems bridged windows may see and call */
+  allowedSubsystems: string[];
+}
+
+/**
+ * Host side of the bridge, created with createZMKBridgeHost
+ */
+export interface ZMKBridgeHost {
+  /** Pass the latest useZMKApp return value; call after every render */
+  update: (zmkApp: UseZMKAppReturn) => void;
+  /** Stop accepting clients and close all bridged connections */
+  close: () => void;
+}
+
+export interface ConnectViaBridgeOptions {
+  /** Origin of the host window; messages are only exchanged with it */
+  hostOrigin: string;
+  /** Host window (default: window.opener, else window.parent) */
+  target?: Pick<Window, "postMessage">;
+  /** Time to wait for the host to accept, in milliseconds (default: the "default" timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Error thrown by connectViaBridge when the host refuses the connection
+ */
+export class ZMKBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZMKBridgeError";
+  }
+}
+
+/**
+ * Request as forwarded to the device, without its ID
+ */
+type RequestBody = Omit<Request, "requestId">;
+
+/**
+ * Request the host may forward, with the timeout it is sent with
+ */
+interface BridgedRequest {
+  body: RequestBody;
+  operation: ZMKTimeoutOperation;
+}
+
+/**
+ * Connection from one bridged window
+ */
+interface BridgeSession {
+  /** Send a message (response or notification) to the client */
+  send: (response: Response) => void;
+  close: () => void;
+}
+
+/**
+ * Share the device connected with useZMKApp with other windows
+ *
+ * Windows from allowedOrigins connect with connectViaBridge and get a
+ * transport for their own useZMKApp. The host answers device info, lock
+ * state and unsaved changes requests, lists only the allowed subsystems,
+ * forwards calls to them, and refuses every other
+ * request (including ones that carry more than one of these) with the
+ * RPC_NOT_FOUND meta error. Forwarded requests share the connection's
+ * request scheduler and timeouts with the host's own calls. Core and keymap
+ * notifications and those of allowed subsystems are forwarded. Bridged
+ * connections are closed when the host's device disconnects.
+ *
+ * @param zmkApp - Return value of useZMKApp that owns the connection
+ * @param options - Allowed origins and subsystems
+ * @returns Host to update with each new zmkApp and close when done
+ *
+ * @example
+ * const zmkApp = useZMKApp();
+ * const hostRef = useRef<ZMKBridgeHost | null>(null);
+ * useEffect(() => {
+ *   hostRef.current = createZMKBridgeHost(zmkApp, {
+ *     allowedOrigins: ["https://module.example.com"],
+ *     allowedSubsystems: ["rgb_effects"],
+ *   });
+ *   return () => hostRef.current?.close();
+ * }, []);
+ * useEffect(() => hostRef.current?.update(zmkApp), [zmkApp]);
+ */
+export function createZMKBridgeHost(
+  zmkApp: UseZMKAppReturn,
+  options: ZMKBridgeHostOptions
+): ZMKBridgeHost {
+  const { allowedOrigins, allowedSubsystems } = options;
+  const sessions = new Set<BridgeSession>();
+  let current = zmkApp;
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const allowedRecords = () =>
+    current.state.customSubsystems?.subsystems.filter((subsystem) =>
+      allowedSubsystems.includes(subsystem.identifier)
+    ) ?? [];
+
+  const broadcast = (response: Response) =>
+    sessions.forEach((session) => session.send(response));
+
+  // Subscribe to the notifications bridged windows may see
+  const subscribe = () => {
+    const subscriptions = [
+      current.onNotification({
+        type: "core",
+        callback: (core) => broadcast({ notification: { core } }),
+      }),
+      // Keymap notifications report unsaved changes, which clients may check
+      current.onNotification({
+        type: "keymap",
+        callback: (keymap) => broadcast({ notification: { keymap } }),
+      }),
+      ...allowedRecords().map((subsystem) =>
+        current.onNotification({
+          type: "custom",
+          subsystemIndex: subsystem.index,
+          callback: (customNotification) =>
+            broadcast({ notification: { custom: { customNotification } } }),
+        })
+      ),
+    ];
+    return () => subscriptions.forEach((remove) => remove());
+  };
+
+  const handleRequest = async (request: Request): Promise<RequestResponse> => {
+    const { requestId, ...body } = request;
+    const connection = current.state.connection;
+    if (!connection) {
+      return { requestId, meta: { noResponse: true } };
+    }
+
+    const forwarded = bridgedRequest(body, allowedRecords());
+    if (!forwarded) {
+      return { requestId, meta: { simpleError: RPC_NOT_FOUND } };
+    }
+    const { custom } = forwarded.body;
+    if (custom?.listCustomSubsystems) {
+      return {
+        requestId,
+        custom: { listCustomSubsystems: { subsystems: allowedRecords() } },
+      };
+    }
+
+    try {
+      if (custom?.call) {
+        const { subsystemIndex, payload } = custom.call;
+        const subsystem = new ZMKCustomSubsystem(connection, subsystemIndex);
+        const response = await subsystem.callRPC(payload);
+        return {
+          requestId,
+          custom: {
+            call: { payload: response ?? new Uint8Array() },
+          },
+        };
+      }
+      const signal = getConnectionSignal(connection);
+      const response = await getZMKRequestScheduler(connection).schedule(
+        () =>
+          withTimeout(call_rpc(connection, forwarded.body), {
+            operation: forwarded.operation,
+            signal,
+          }),
+        { signal }
+      );
+      return { ...response, requestId };
+    } catch (error) {
+      return { requestId, meta: metaResponse(error) };
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data as ZMKBridgeMessage | null;
+    if (data?.type !== "zmk-bridge:connect") return;
+    const port = event.ports?.[0];
+    if (!port) return;
+
+    const reject = (reason: string) => {
+      port.postMessage({ type: "zmk-bridge:rejected", reason });
+      port.close();
+    };
+    if (!allowedOrigins.includes(event.origin)) {
+      return reject(`Origin ${event.origin} is not allowed`);
+    }
+    if (!current.state.connection) return reject("No device is connected");
+
+    const session = openSession(port, handleRequest, () =>
+      sessions.delete(session)
+    );
+    sessions.add(session);
+    port.postMessage({ type: "zmk-bridge:accepted" });
+  };
+
+  window.addEventListener("message", handleMessage);
+  unsubscribe = subscribe();
+
+  return {
+    update: (zmkApp) => {
+      if (closed) return;
+      const previous = current;
+      current = zmkApp;
+      if (
+        previous.state.connection !== zmkApp.state.connection ||
+        previous.state.customSubsystems !== zmkApp.state.customSubsystems ||
+        previous.onNotification !== zmkApp.onNotification
+      ) {
+        unsubscribe?.();
+        unsubscribe = subscribe();
+      }
+      // Bridged windows lose their connection along with the host
+      if (previous.state.connection && !zmkApp.state.connection) {
+        sessions.forEach((session) => session.close());
+      }
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      window.removeEventListener("message", handleMessage);
+      unsubscribe?.();
+      unsubscribe = null;
+      sessions.forEach((session) => session.close());
+    },
+  };
+}
+
+/**
+ * Keys of the fields that are set
+ */
+function setFields(message: object): string[] {
+  return Object.entries(message)
+    .filter(([, value]) => value !== undefined)
+    .map(([key]) => key);
+}
+
+/**
+ * Rebuild a bridged request from the one field it may carry
+ * Decoding does not enforce the oneof, so a request with any other subsystem
+ * or field set is refused as a whole rather than forwarded.
+ *
+ * @returns The request to forward, or null if it is not allowed
+ */
+function bridgedRequest(
+  body: RequestBody,
+  allowedSubsystems: CustomSubsystem[]
+): BridgedRequest | null {
+  const subsystems = setFields(body);
+  if (subsystems.length !== 1) return null;
+  const fields = setFields(body[subsystems[0] as keyof RequestBody] ?? {});
+  if (fields.length !== 1) return null;
+  const field = `${subsystems[0]}.${fields[0]}`;
+
+  switch (field) {
+    case "core.getDeviceInfo":
+      return {
+        body: { core: { getDeviceInfo: true } },
+        operation: "getDeviceInfo",
+      };
+    case "core.getLockState":
+      return {
+        body: { core: { getLockState: true } },
+        operation: "getLockState",
+      };
+    case "keymap.checkUnsavedChanges":
+      return {
+        body: { keymap: { checkUnsavedChanges: true } },
+        operation: "checkUnsavedChanges",
+      };
+    case "custom.listCustomSubsystems":
+      return {
+        body: { custom: { listCustomSubsystems: {} } },
+        operation: "listCustomSubsystems",
+      };
+    case "custom.call": {
+      const { subsystemIndex, payload } = body.custom!.call!;
+      const allowed = allowedSubsystems.some(
+        (subsystem) => subsystem.index === subsystemIndex
+      );
+      return allowed
+        ? {
+            body: { custom: { call: { subsystemIndex, payload } } },
+            operation: "customCall",
+          }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Serve one bridged window over its port
+ * Requests are decoded from the framed byte stream and answered in order.
+ */
+function openSession(
+  port: MessagePort,
+  handleRequest: (request: Request) => Promise<RequestResponse>,
+  onClose: () => void
+): BridgeSession {
+  let open = true;
+
+  const outgoing = new TransformStream<Uint8Array, Uint8Array>(get_encoder());
+  const outgoingWriter = outgoing.writable.getWriter();
+  outgoing.readable
+    .pipeTo(
+      new WritableStream({
+        write: (bytes) => port.postMessage({ type: "zmk-bridge:data", bytes }),
+      })
+    )
+    .catch(() => {});
+
+  const incoming = new TransformStream<Uint8Array, Uint8Array>(get_decoder());
+  const incomingWriter = incoming.writable.getWriter();
+  incoming.readable
+    .pipeTo(
+      new WritableStream({
+        write: async (frame) => {
+          const response = await handleRequest(Request.decode(frame));
+          send({ requestResponse: response });
+        },
+      })
+    )
+    .catch(() => {});
+
+  const send = (response: Response) => {
+    if (!open) return;
+    outgoingWriter.write(Response.encode(response).finish()).catch(() => {});
+  };
+
+  const close = () => {
+    if (!open) return;
+    open = false;
+    port.postMessage({ type: "zmk-bridge:close" });
+    port.close();
+    incomingWriter.abort().catch(() => {});
+    outgoingWriter.abort().catch(() => {});
+    onClose();
+  };
+
+  port.onmessage = (event: MessageEvent<ZMKBridgeMessage>) => {
+    if (event.data.type === "zmk-bridge:data") {
+      incomingWriter.write(event.data.bytes).catch(() => {});
+    } else if (event.data.type === "zmk-bridge:close") {
+      close();
+    }
+  };
+
+  return { send, close };
+}
+
+/**
+ * Meta error to answer a failed forwarded request with
+ * Timeouts and closed connections are answered with noResponse.
+ */
+function metaResponse(error: unknown): RequestResponse["meta"] {
+  // ZMKCustomSubsystem keeps the meta error condition as the code
+  if (error instanceof ZMKCustomSubsystemError) {
+    return error.code !== undefined && error.type !== "subsystem"
+      ? { simpleError: error.code }
+      : { noResponse: true };
+  }
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    "condition" in error &&
+    typeof error.condition === "number"
+  ) {
+    return { simpleError: error.condition };
+  }
+  return { noResponse: true };
+}
+
+/**
+ * Connect to a device shared by a host window with createZMKBridgeHost
+ *
+ * Returns a transport for useZMKApp's connect, so a module UI in an iframe
+ * or popup uses the host's device like a directly connected one, limited to
+ * what the host allows.
+ *
+ * @param options - Host origin and window
+ * @returns Transport carrying the RPC byte stream over the bridge
+ * @throws ZMKBridgeError if the host refuses the connection
+ * @throws ZMKTimeoutError if the host does not answer in time
+ *
+ * @example
+ * const { connect } = useZMKApp();
+ * await connect(() =>
+ *   connectViaBridge({ hostOrigin: "https://studio.example.com" })
+ * );
+ */
+export async function connectViaBridge(
+  options: ConnectViaBridgeOptions
+): Promise<RpcTransport> {
+  const { hostOrigin, timeoutMs } = options;
+  const target = options.target ?? window.opener ?? window.parent;
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  const abortController = new AbortController();
+  let readableController: ReadableStreamDefaultController<Uint8Array>;
+  let open = true;
+
+  const close = (notifyHost: boolean) => {
+    if (!open) return;
+    open = false;
+    if (notifyHost) port.postMessage({ type: "zmk-bridge:close" });
+    port.close();
+    try {
+      readableController.close();
+    } catch {
+      // Already closed or errored
+    }
+    abortController.abort();
+  };
+
+  const accepted = new Promise<void>((resolve, reject) => {
+    port.onmessage = (event: MessageEvent<ZMKBridgeMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "zmk-bridge:accepted":
+          resolve();
+          break;
+        case "zmk-bridge:rejected":
+          port.close();
+          reject(new ZMKBridgeError(message.reason));
+          break;
+        case "zmk-bridge:data":
+          if (open) readableController.enqueue(message.bytes);
+          break;
+        case "zmk-bridge:close":
+          close(false);
+          break;
+      }
+    };
+  });
+
+  const readable = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      readableController = controller;
+    },
+    cancel: () => close(true),
+  });
+  const writable = new WritableStream<Uint8Array>({
+    write: (bytes) => {
+      if (open) port.postMessage({ type: "zmk-bridge:data", bytes });
+    },
+    close: () => close(true),
+    abort: () => close(true),
+  });
+  abortController.signal.addEventListener("abort", () => close(true));
+
+  const connect: ZMKBridgeMessage = { type: "zmk-bridge:connect" };
+  target.postMessage(connect, hostOrigin, [channel.port2]);
+
+  try {
+    await withTimeout(accepted, {
+      timeoutMs,
+      message: "Bridge host did not answer",
+    });
+  } catch (error) {
+    port.close();
+    throw error;
+  }
+
+  return { label: "ZMK bridge", abortController, readable, writable };
+}
@@ -0,0 +1,931 @@
+/**
+ * ZMKClient
+ * Framework-agnostic ZMK device connection lifecycle and state
+ */
+
+import { create_rpc_connection } from "@zmkfirmware/zmk-studio-ts-client";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+import type {
+  GetDeviceInfoResponse,
+  LockState,
+} from "@zmkfirmware/zmk-studio-ts-client/core";
+import type {
+  ListCustomSubsystemResponse,
+  CustomSubsystem,
+} from "@zmkfirmware/zmk-studio-ts-client/custom";
+import {
+  callZMKRPC,
+  LOCK_STATE_LOCKED,
+  registerConnectionSignal,
+  ZMKLockedError,
+} from "./rpc";
+import { ZMKNotificationHub } from "./ZMKNotificationHub";
+import type { NotificationSubscription } from "./ZMKNotificationHub";
+import { ZMKKeymapError } from "./keymapRpc";
+import { ZMKTimeoutError } from "./utils";
+import type { WithTimeoutOptions } from "./utils";
+
+const DEFAULT_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_RECONNECT_BACKOFF_MS = 1000;
+const DEFAULT_RECONNECT_MAX_BACKOFF_MS = 30000;
+
+export interface ZMKAppState {
+  /** RPC connection to the device */
+  connection: RpcConnection | null;
+  /** Device information */
+  deviceInfo: GetDeviceInfoResponse | null;
+  /** Available custom subsystems */
+  customSubsystems: ListCustomSubsystemResponse | null;
+  /** Whether the device has keymap changes that are not saved yet */
+  hasUnsavedChanges: boolean;
+  /** Lock state of the device, or null if unknown */
+  lockState: LockState | null;
+  /** Current phase of the connection lifecycle */
+  status: ZMKConnectionStatus;
+  /** Whether the app is currently loading (any connecting phase) */
+  isLoading: boolean;
+  /** Any error that occurred (message of the failed status' error) */
+  error: string | null;
+}
+
+/**
+ * Phases of the connection lifecycle
+ * connecting → fetchingDeviceInfo → listingSubsystems → checkingLockState → connected
+ * → disconnecting → disconnected
+ */
+export type ZMKConnectionStatus =
+  | { type: "disconnected" }
+  | { type: "connecting" }
+  | { type: "fetchingDeviceInfo" }
+  | { type: "listingSubsystems" }
+  | { type: "checkingLockState" }
+  | { type: "connected" }
+  | { type: "reconnecting"; attempt: number; maxAttempts: number }
+  /** disconnect() is closing the transport; the state resets right after */
+  | { type: "disconnecting" }
+  | { type: "failed"; error: ZMKConnectionError };
+
+/**
+ * Kinds of connection failures
+ */
+export type ZMKConnectionErrorKind =
+  /** The transport could not be opened */
+  | "transport"
+  /** The device did not answer in time */
+  | "timeout"
+  /** The device did not report its information */
+  | "deviceInfo"
+  /** The user dismissed the port or device picker */
+  | "userCancelled"
+  /** The attempt was cancelled, e.g. by disconnect() */
+  | "aborted";
+
+/**
+ * Error describing why connecting to a device failed
+ */
+export class ZMKConnectionError extends Error {
+  public kind: ZMKConnectionErrorKind;
+
+  constructor(kind: ZMKConnectionErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "ZMKConnectionError";
+    this.kind = kind;
+  }
+}
+
+/**
+ * Convert an error thrown while connecting into a ZMKConnectionError
+ * @param error - Error thrown by the transport or an RPC
+ * @param fallback - Kind to use when the error is not recognized
+ */
+function toConnectionError(
+  error: unknown,
+  fallback: ZMKConnectionErrorKind
+): ZMKConnectionError {
+  if (error instanceof ZMKConnectionError) return error;
+
+  const message =
+    error instanceof Error ? error.message : "Unknown connection error";
+  const name =
+    typeof error === "object" && error !== null && "name" in error
+      ? error.name
+      : undefined;
+
+  // Web Serial and Web Bluetooth reject with NotFoundError when the picker is dismissed
+  if (name === "NotFoundError") {
+    return new ZMKConnectionError("userCancelled", message, error);
+  }
+  if (name === "AbortError") {
+    return new ZMKConnectionError("aborted", message, error);
+  }
+  if (error instanceof ZMKTimeoutError || message === "Operation timed out") {
+    return new ZMKConnectionError("timeout", message, error);
+  }
+  return new ZMKConnectionError(fallback, message, error);
+}
+
+/**
+ * Policy for reconnecting after the connection to the device is lost
+ */
+export interface ZMKReconnectOptions {
+  /** Attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt, doubled after each failure (default: 1000ms) */
+  backoffMs?: number;
+  /** Upper bound of the delay between attempts (default: 30000ms) */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Timeouts of the connection steps, in milliseconds
+ * Steps without a timeout use the defaults set with configureZMKTimeouts.
+ */
+export type ZMKConnectionTimeouts = Partial<
+  Record<
+    | "getDeviceInfo"
+    | "listCustomSubsystems"
+    | "getLockState"
+    | "checkUnsavedChanges",
+    number
+  >
+>;
+
+/**
+ * Destination of the client's log messages
+ * `console` can be used as is.
+ */
+export interface ZMKLogger {
+  error: (message: string, ...details: unknown[]) => void;
+}
+
+export interface ZMKClientOptions {
+  /** Reconnect automatically when reading from the device fails */
+  reconnect?: ZMKReconnectOptions;
+  /** Timeouts of the connection steps */
+  timeouts?: ZMKConnectionTimeouts;
+  /** List custom subsystems while connecting (default: true) */
+  fetchSubsystems?: boolean;
+  /** Receives log messages (default: console) */
+  logger?: ZMKLogger;
+  /** Called after each successful connect or reconnect */
+  onConnected?: (state: ZMKAppState) => void;
+  /** Called when a connected or reconnecting device is disconnected */
+  onDisconnected?: () => void;
+  /** Called when connecting, or reconnecting after all attempts, fails */
+  onError?: (error: ZMKConnectionError) => void;
+  /**
+   * Notifications kept per type (and per subsystem for custom notifications)
+   * for subscribers that ask for a replay (default: 0, no history)
+   */
+  notificationHistory?: number;
+}
+
+/**
+ * Options of the client used by the connection sequence
+ */
+interface ConnectionSettings {
+  timeouts: ZMKConnectionTimeouts;
+  fetchSubsystems: boolean;
+  logger: ZMKLogger;
+}
+
+function connectionSettings(options: ZMKClientOptions): ConnectionSettings {
+  return {
+    timeouts: options.timeouts ?? {},
+    fetchSubsystems: options.fetchSubsystems ?? true,
+    logger: options.logger ?? console,
+  };
+}
+
+/**
+ * Timeout options for a connection step
+ * @param signal - Cancels the step at once instead of after its timeout
+ */
+function stepTimeout(
+  settings: ConnectionSettings,
+  operation: keyof ZMKConnectionTimeouts,
+  signal?: AbortSignal
+): WithTimeoutOptions {
+  return { operation, timeoutMs: settings.timeouts[operation], signal };
+}
+
+/**
+ * Fetch device information from the connected device
+ * @throws Error if the device does not answer
+ */
+async function fetchDeviceInfo(
+  connection: RpcConnection,
+  settings: ConnectionSettings,
+  signal?: AbortSignal
+): Promise<GetDeviceInfoResponse | null> {
+  const response = await callZMKRPC(
+    connection,
+    { core: { getDeviceInfo: true } },
+    stepTimeout(settings, "getDeviceInfo", signal)
+  );
+  return response.core?.getDeviceInfo || null;
+}
+
+/**
+ * Fetch available custom subsystems from the device
+ */
+async function fetchCustomSubsystems(
+  connection: RpcConnection,
+  settings: ConnectionSettings,
+  signal?: AbortSignal
+): Promise<ListCustomSubsystemResponse | null> {
+  try {
+    const response = await callZMKRPC(
+      connection,
+      { custom: { listCustomSubsystems: {} } },
+      stepTimeout(settings, "listCustomSubsystems", signal)
+    );
+    return response.custom?.listCustomSubsystems || null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    settings.logger.error("Failed to get custom subsystems", error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the lock state of the device
+ */
+async function fetchLockState(
+  connection: RpcConnection,
+  settings: ConnectionSettings,
+  signal?: AbortSignal
+): Promise<LockState | null> {
+  try {
+    const response = await callZMKRPC(
+      connection,
+      { core: { getLockState: true } },
+      stepTimeout(settings, "getLockState", signal)
+    );
+    return response.core?.getLockState ?? null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    settings.logger.error("Failed to get lock state", error);
+    return null;
+  }
+}
+
+/**
+ * Check whether the device has unsaved keymap changes
+ */
+async function fetchUnsavedChanges(
+  connection: RpcConnection,
+  settings: ConnectionSettings,
+  signal?: AbortSignal
+): Promise<boolean> {
+  try {
+    const response = await callZMKRPC(
+      connection,
+      { keymap: { checkUnsavedChanges: true } },
+      stepTimeout(settings, "checkUnsavedChanges", signal)
+    );
+    return response.keymap?.checkUnsavedChanges ?? false;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    settings.logger.error("Failed to check unsaved changes", error);
+    return false;
+  }
+}
+
+/**
+ * Phases reported by openConnection after the transport is open
+ */
+type ConnectingPhase =
+  "fetchingDeviceInfo" | "listingSubsystems" | "checkingLockState";
+
+/**
+ * State gathered by openConnection
+ */
+type ConnectedState = Pick<
+  ZMKAppState,
+  | "connection"
+  | "deviceInfo"
+  | "customSubsystems"
+  | "hasUnsavedChanges"
+  | "lockState"
+>;
+
+/**
+ * Throw if the connection attempt was cancelled
+ */
+function throwIfAborted(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new ZMKConnectionError("aborted", "Connection aborted");
+  }
+}
+
+/**
+ * Open a connection and fetch everything known about the device
+ * @param connectFunction - Function that creates and returns the transport connection
+ * @param signal - Aborts the RPC connection
+ * @param settings - Timeouts, optional steps and logger
+ * @param onPhase - Called when the connection sequence enters a new phase
+ * @throws ZMKConnectionError if the transport fails, device info is
+ * unavailable or the signal is aborted
+ */
+async function openConnection(
+  connectFunction: () => Promise<RpcTransport>,
+  signal: AbortSignal,
+  settings: ConnectionSettings,
+  onPhase: (phase: ConnectingPhase) => void = () => {}
+): Promise<ConnectedState> {
+  let phase: ConnectingPhase | "connecting" = "connecting";
+  const enter = (next: ConnectingPhase) => {
+    phase = next;
+    onPhase(next);
+  };
+
+  try {
+    return await runConnectionSequence(
+      connectFunction,
+      signal,
+      settings,
+      enter
+    );
+  } catch (error) {
+    // Only the transport and device info steps can fail
+    throw toConnectionError(
+      error,
+      phase === "connecting" ? "transport" : "deviceInfo"
+    );
+  }
+}
+
+/**
+ * Steps of openConnection
+ */
+async function runConnectionSequence(
+  connectFunction: () => Promise<RpcTransport>,
+  signal: AbortSignal,
+  settings: ConnectionSettings,
+  onPhase: (phase: ConnectingPhase) => void
+): Promise<ConnectedState> {
+  // Step 1: Establish transport and RPC connection
+  const transport = await connectFunction();
+  const connection = create_rpc_connection(transport, { signal });
+  registerConnectionSignal(connection, signal);
+  throwIfAborted(signal);
+
+  // Step 2: Fetch device information
+  onPhase("fetchingDeviceInfo");
+  const deviceInfo = await fetchDeviceInfo(connection, settings, signal);
+  if (!deviceInfo) {
+    throw new ZMKConnectionError(
+      "deviceInfo",
+      "Failed to get device information"
+    );
+  }
+  throwIfAborted(signal);
+
+  // Step 3: Fetch custom subsystems (optional - won't fail connection)
+  let customSubsystems: ListCustomSubsystemResponse | null = null;
+  if (settings.fetchSubsystems) {
+    onPhase("listingSubsystems");
+    customSubsystems = await fetchCustomSubsystems(
+      connection,
+      settings,
+      signal
+    );
+    throwIfAborted(signal);
+  }
+
+  // Step 4: Fetch lock state (optional - won't fail connection)
+  onPhase("checkingLockState");
+  const lockState = await fetchLockState(connection, settings, signal);
+
+  // Step 5: Check for unsaved keymap changes (requires an unlocked device)
+  const hasUnsavedChanges =
+    lockState === LOCK_STATE_LOCKED
+      ? false
+      : await fetchUnsavedChanges(connection, settings, signal);
+  throwIfAborted(signal);
+
+  return {
+    connection,
+    deviceInfo,
+    customSubsystems,
+    hasUnsavedChanges,
+    lockState,
+  };
+}
+
+/**
+ * Resolve after a delay, or reject as soon as the signal is aborted
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const INITIAL_STATE: ZMKAppState = {
+  connection: null,
+  deviceInfo: null,
+  customSubsystems: null,
+  hasUnsavedChanges: false,
+  lockState: null,
+  status: { type: "disconnected" },
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * Find a subsystem record by identifier
+ */
+export function findCustomSubsystem(
+  customSubsystems: ListCustomSubsystemResponse | null,
+  identifier: string
+): CustomSubsystem | null {
+  return (
+    customSubsystems?.subsystems.find((s) => s.identifier === identifier) ??
+    null
+  );
+}
+
+/**
+ * Framework-agnostic ZMK device client
+ *
+ * Runs the connection lifecycle — connect sequence, device info, subsystem
+ * listing, lock state, reconnection and abort handling — and publishes its
+ * state to subscribers. useZMKApp is built on a client; Node scripts and
+ * other UI frameworks can use one directly.
+ *
+ * @example
+ * const client = new ZMKClient({ reconnect: { maxAttempts: 3 } });
+ * const unsubscribe = client.subscribe((state) => console.log(state.status.type));
+ * await client.connect(() => connectSerial());
+ * console.log(client.getState().deviceInfo?.name);
+ */
+export class ZMKClient {
+  /** Notification subscriptions and history, kept across reconnects */
+  readonly notifications = new ZMKNotificationHub();
+  /** Forwards to the logger of the current options (default: console) */
+  readonly logger: ZMKLogger = {
+    error: (message, ...details) =>
+      connectionSettings(this.options).logger.error(message, ...details),
+  };
+
+  private options: ZMKClientOptions;
+  private state: ZMKAppState = INITIAL_STATE;
+  private listeners = new Set<(state: ZMKAppState) => void>();
+  private abortController: AbortController | null = null;
+  // Last connect function, reused to reconnect
+  private connectFunction: (() => Promise<RpcTransport>) | null = null;
+  // Aborts the reconnection loop in progress
+  private reconnectAbort: AbortController | null = null;
+  // Whether onDisconnected is due when disconnecting
+  private wasConnected = false;
+  // Stops reading the current connection's notifications
+  private stopReading: (() => void) | null = null;
+  // Set by dispose(); the client no longer connects
+  private disposed = false;
+
+  /**
+   * Create a new client
+   * @param options - Reconnect policy, timeouts, logger and lifecycle callbacks
+   */
+  constructor(options: ZMKClientOptions = {}) {
+    this.options = options;
+    this.notifications.setHistory(options.notificationHistory);
+  }
+
+  /**
+   * Replace the options; they are read when used, so this applies to the
+   * next connection step
+   */
+  setOptions(options: ZMKClientOptions): void {
+    this.options = options;
+    this.notifications.setHistory(options.notificationHistory);
+  }
+
+  /**
+   * Current state; a new object after every change
+   */
+  getState(): ZMKAppState {
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes
+   * @param listener - Called with the new state after every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (state: ZMKAppState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect to a ZMK device
+   * Failures are reported in `state.status` and to onError, not thrown.
+   * A new call cancels an attempt still in progress; only the newest attempt
+   * updates the state.
+   * @param connectFunction - Function that creates and returns the transport connection
+   */
+  async connect(connectFunction: () => Promise<RpcTransport>): Promise<void> {
+    if (this.disposed) return;
+    this.stopReconnecting();
+    this.stopReading?.();
+    this.abortController?.abort();
+    this.connectFunction = connectFunction;
+
+    // Create new AbortController for this connection
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const isCurrent = () => this.abortController === abortController;
+
+    this.setState((prev) => ({
+      ...prev,
+      status: { type: "connecting" },
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const connected = await openConnection(
+        connectFunction,
+        abortController.signal,
+        connectionSettings(this.options),
+        (phase) => {
+          if (isCurrent() && !abortController.signal.aborted) {
+            this.setState((prev) => ({ ...prev, status: { type: phase } }));
+          }
+        }
+      );
+
+      if (!isCurrent()) {
+        abortController.abort();
+        return;
+      }
+      // Cancelled by disconnect() after the last step
+      throwIfAborted(abortController.signal);
+
+      // Update state with successful connection
+      const connectedState: ZMKAppState = {
+        ...connected,
+        status: { type: "connected" },
+        isLoading: false,
+        error: null,
+      };
+      this.setState(() => connectedState);
+      this.wasConnected = true;
+      this.startReading(connectedState.connection!);
+      this.options.onConnected?.(connectedState);
+    } catch (error) {
+      // Superseded by a newer attempt, or the client was disposed
+      if (!isCurrent()) return;
+      const connectionError = toConnectionError(error, "transport");
+      connectionSettings(this.options).logger.error(
+        "Connection failed:",
+        connectionError.cause ?? connectionError
+      );
+
+      this.setState((prev) => ({
+        ...prev,
+        status: { type: "failed", error: connectionError },
+        isLoading: false,
+        error: connectionError.message,
+      }));
+      this.options.onError?.(connectionError);
+    }
+  }
+
+  /**
+   * Disconnect from the current device
+   * Aborts any ongoing operations and clears all state. Listeners see the
+   * "disconnecting" status while the transport is closed.
+   */
+  disconnect(): void {
+    this.stopReconnecting();
+    this.connectFunction = null;
+
+    const { type } = this.state.status;
+    if (type !== "disconnected" && type !== "failed") {
+      this.setState((prev) => ({
+        ...prev,
+        status: { type: "disconnecting" },
+        isLoading: false,
+      }));
+    }
+
+    // Abort any ongoing connection and RPC calls; the controller is kept so
+    // a connect() in progress still reports itself as aborted
+    this.abortController?.abort();
+
+    // Clear all notification subscriptions and their history
+    this.stopReading?.();
+    this.notifications.clear();
+
+    // Reset state to initial values
+    this.setState(() => INITIAL_STATE);
+
+    if (this.wasConnected) {
+      this.wasConnected = false;
+      this.options.onDisconnected?.();
+    }
+  }
+
+  /**
+   * Close the connection for good
+   * Stops reconnecting and reading notifications, drops all subscriptions
+   * and aborts the connection. Call when the client's owner goes away; later
+   * connect() calls do nothing. Listeners and callbacks are not notified.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.stopReconnecting();
+    this.stopReading?.();
+    this.notifications.close();
+    this.abortController?.abort();
+    this.abortController = null;
+    this.connectFunction = null;
+  }
+
+  /**
+   * Find a subsystem by its identifier string
+   * @param identifier - The unique identifier of the subsystem to find
+   * @returns The subsystem record (index, identifier and uiUrl), or null if not found
+   */
+  findSubsystem(identifier: string): CustomSubsystem | null {
+    return findCustomSubsystem(this.state.customSubsystems, identifier);
+  }
+
+  /**
+   * Subscribe to notifications
+   * @param subscription - Notification subscription configuration; with
+   *   `replay`, buffered notifications are delivered before this returns
+   * @returns Unsubscribe function to stop receiving notifications
+   */
+  onNotification(subscription: NotificationSubscription): () => void {
+    return this.notifications.subscribe(subscription);
+  }
+
+  /**
+   * Persist pending keymap changes to the device's storage
+   * @throws ZMKKeymapError with the device's SaveChangesErrorCode as `code`
+   * @throws ZMKLockedError if the device is locked
+   */
+  async saveChanges(): Promise<void> {
+    const connection = this.state.connection;
+    if (!connection) {
+      throw new ZMKKeymapError("saveChanges", "Not connected to a device");
+    }
+
+    let response;
+    try {
+      response = await callZMKRPC(connection, {
+        keymap: { saveChanges: true },
+      });
+    } catch (error) {
+      if (error instanceof ZMKLockedError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ZMKKeymapError("saveChanges", `saveChanges failed: ${message}`);
+    }
+
+    const result = response.keymap?.saveChanges;
+    if (!result?.ok) {
+      throw new ZMKKeymapError(
+        "saveChanges",
+        "Device failed to save changes",
+        result?.err
+      );
+    }
+    this.setState((prev) =>
+      prev.connection === connection
+        ? { ...prev, hasUnsavedChanges: false }
+        : prev
+    );
+  }
+
+  /**
+   * Revert pending keymap changes to the last saved keymap
+   * @throws ZMKKeymapError if the device refuses to discard changes
+   * @throws ZMKLockedError if the device is locked
+   */
+  async discardChanges(): Promise<void> {
+    const connection = this.state.connection;
+    if (!connection) {
+      throw new ZMKKeymapError("discardChanges", "Not connected to a device");
+    }
+
+    let response;
+    try {
+      response = await callZMKRPC(connection, {
+        keymap: { discardChanges: true },
+      });
+    } catch (error) {
+      if (error instanceof ZMKLockedError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ZMKKeymapError(
+        "discardChanges",
+        `discardChanges failed: ${message}`
+      );
+    }
+
+    if (!response.keymap?.discardChanges) {
+      throw new ZMKKeymapError(
+        "discardChanges",
+        "Device failed to discard changes"
+      );
+    }
+    this.setState((prev) =>
+      prev.connection === connection
+        ? { ...prev, hasUnsavedChanges: false }
+        : prev
+    );
+  }
+
+  /**
+   * Update the state and notify listeners if it changed
+   */
+  private setState(update: (prev: ZMKAppState) => ZMKAppState): void {
+    const next = update(this.state);
+    if (next === this.state) return;
+    this.state = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  private stopReconnecting(): void {
+    if (this.reconnectAbort) {
+      this.reconnectAbort.abort();
+      this.reconnectAbort = null;
+    }
+  }
+
+  /**
+   * Read notifications from a new connection and dispatch them to subscribers
+   * Tracks lock state and unsaved changes; a read error counts as a lost
+   * connection.
+   */
+  private startReading(connection: RpcConnection): void {
+    this.stopReading?.();
+    let detached = false;
+
+    /**
+     * Track lock state changes, refreshing unlock-only state once unlocked
+     */
+    const handleLockStateChanged = (lockState: LockState) => {
+      this.setState((prev) =>
+        prev.connection === connection ? { ...prev, lockState } : prev
+      );
+      if (lockState !== LOCK_STATE_LOCKED) {
+        fetchUnsavedChanges(connection, connectionSettings(this.options)).then(
+          (hasUnsavedChanges) =>
+            this.setState((prev) =>
+              prev.connection === connection
+                ? { ...prev, hasUnsavedChanges }
+                : prev
+            )
+        );
+      }
+    };
+
+    const unsubscribes = [
+      this.notifications.subscribe({
+        type: "core",
+        callback: ({ lockStateChanged }) => {
+          if (lockStateChanged !== undefined) {
+            handleLockStateChanged(lockStateChanged);
+          }
+        },
+      }),
+      this.notifications.subscribe({
+        type: "keymap",
+        callback: ({ unsavedChangesStatusChanged: unsaved }) => {
+          if (unsaved !== undefined) {
+            this.setState((prev) =>
+              prev.connection === connection
+                ? { ...prev, hasUnsavedChanges: unsaved }
+                : prev
+            );
+          }
+        },
+      }),
+    ];
+
+    this.stopReading = () => {
+      detached = true;
+      this.stopReading = null;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      this.notifications.detach();
+    };
+
+    this.notifications.attach(connection).catch((error) => {
+      // Only log errors if we weren't intentionally detached
+      if (detached) return;
+      connectionSettings(this.options).logger.error(
+        "Error reading notifications:",
+        error
+      );
+      this.handleConnectionLost();
+    });
+  }
+
+  /**
+   * Handle a lost connection
+   * Retries the last connect function with exponential backoff when a
+   * reconnect policy is set, keeping notification subscriptions. Otherwise,
+   * or once all attempts fail, disconnects and clears all state.
+   */
+  private async handleConnectionLost(): Promise<void> {
+    if (this.disposed) return;
+    const connectFunction = this.connectFunction;
+    const policy = this.options.reconnect;
+    if (!connectFunction || !policy) {
+      this.disconnect();
+      return;
+    }
+
+    const {
+      maxAttempts = DEFAULT_RECONNECT_ATTEMPTS,
+      backoffMs = DEFAULT_RECONNECT_BACKOFF_MS,
+      maxBackoffMs = DEFAULT_RECONNECT_MAX_BACKOFF_MS,
+    } = policy;
+
+    this.stopReading?.();
+    this.abortController?.abort();
+    this.stopReconnecting();
+    const reconnectController = new AbortController();
+    this.reconnectAbort = reconnectController;
+
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Keep device info so the UI can show what it is reconnecting to
+      this.setState((prev) => ({
+        ...prev,
+        connection: null,
+        status: { type: "reconnecting", attempt, maxAttempts },
+        isLoading: false,
+        error: null,
+      }));
+
+      const connectionController = new AbortController();
+      try {
+        const delay = Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs);
+        await sleep(delay, reconnectController.signal);
+
+        this.abortController = connectionController;
+        const connected = await openConnection(
+          connectFunction,
+          connectionController.signal,
+          connectionSettings(this.options)
+        );
+        if (reconnectController.signal.aborted) {
+          connectionController.abort();
+          return;
+        }
+
+        this.reconnectAbort = null;
+        const connectedState: ZMKAppState = {
+          ...connected,
+          status: { type: "connected" },
+          isLoading: false,
+          error: null,
+        };
+        this.setState(() => connectedState);
+        this.startReading(connectedState.connection!);
+        this.options.onConnected?.(connectedState);
+        return;
+      } catch (error) {
+        connectionController.abort();
+        if (reconnectController.signal.aborted) return;
+        connectionSettings(this.options).logger.error(
+          `Reconnection attempt ${attempt} failed:`,
+          error
+        );
+        lastError = error;
+      }
+    }
+
+    this.disconnect();
+    const cause = toConnectionError(lastError, "transport");
+    const connectionError = new ZMKConnectionError(
+      cause.kind,
+      `Reconnection failed: ${cause.message}`,
+      lastError
+    );
+    this.setState((prev) => ({
+      ...prev,
+      status: { type: "failed", error: connectionError },
+      error: connectionError.message,
+    }));
+    this.options.onError?.(connectionError);
+  }
+}
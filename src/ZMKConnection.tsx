@@ -5,9 +5,15 @@
 
 import React from "react";
 import { useZMKApp } from "./useZMKApp";
-import type { UseZMKAppReturn } from "./useZMKApp";
+import type {
+  UseZMKAppReturn,
+  ZMKConnectionError,
+  ZMKConnectionStatus,
+} from "./useZMKApp";
 import { ZMKAppContext } from "./ZMKAppContext";
+import { LOCK_STATE_LOCKED } from "./rpc";
 import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+import type { CustomSubsystem } from "@zmkfirmware/zmk-studio-ts-client/custom";
 
 export interface ZMKConnectionProps {
   /** Optional external ZMK app state. If provided, ZMKConnection won't create its own useZMKApp instance */
@@ -22,11 +28,44 @@ export interface ZMKConnectionProps {
   renderConnected: (props: {
     disconnect: () => void;
     deviceName: string | undefined;
-    subsystems: Array<{ index: number; identifier: string }>;
-    findSubsystem: (identifier: string) => {
-      index: number;
-      identifier: string;
-    } | null;
+    subsystems: CustomSubsystem[];
+    findSubsystem: (identifier: string) => CustomSubsystem | null;
+  }) => React.ReactNode;
+  /**
+   * Render prop for when connected but the device is locked
+   * If omitted, renderConnected is used regardless of the lock state
+   */
+  renderLocked?: (props: {
+    disconnect: () => void;
+    deviceName: string | undefined;
+  }) => React.ReactNode;
+  /**
+   * Render prop while connecting (opening the transport, fetching device info,
+   * listing subsystems, checking the lock state)
+   * If omitted, renderDisconnected is used with isLoading set
+   */
+  renderConnecting?: (props: {
+    phase: ZMKConnectionStatus["type"];
+    deviceName: string | undefined;
+    disconnect: () => void;
+  }) => React.ReactNode;
+  /**
+   * Render prop while reconnecting after the connection was lost
+   * If omitted, renderDisconnected is used
+   */
+  renderReconnecting?: (props: {
+    attempt: number;
+    maxAttempts: number;
+    deviceName: string | undefined;
+    disconnect: () => void;
+  }) => React.ReactNode;
+  /**
+   * Render prop after connecting failed
+   * If omitted, renderDisconnected is used with error set
+   */
+  renderFailed?: (props: {
+    error: ZMKConnectionError;
+    connect: (connectFunction: () => Promise<RpcTransport>) => Promise<void>;
   }) => React.ReactNode;
 }
 
@@ -42,6 +81,10 @@ export function ZMKConnection({
   zmkApp: externalZmkApp,
   renderDisconnected,
   renderConnected,
+  renderLocked,
+  renderConnecting,
+  renderReconnecting,
+  renderFailed,
 }: ZMKConnectionProps) {
   // Always call useZMKApp unconditionally (React hooks rule)
   const internalZmkApp = useZMKApp();
@@ -59,20 +102,45 @@ export function ZMKConnection({
   // Prepare render content
   let content: React.ReactElement;
 
-  // Disconnected state: show connection UI
-  if (!isConnected) {
+  const { status } = state;
+
+  if (renderReconnecting && status.type === "reconnecting") {
+    // Reconnecting state: the connection was lost and is being restored
+    content = renderReconnecting({
+      attempt: status.attempt,
+      maxAttempts: status.maxAttempts,
+      deviceName: state.deviceInfo?.name,
+      disconnect,
+    }) as React.ReactElement;
+  } else if (renderConnecting && !isConnected && state.isLoading) {
+    // Connecting state: show which phase the connection sequence is in
+    content = renderConnecting({
+      phase: status.type,
+      deviceName: state.deviceInfo?.name,
+      disconnect,
+    }) as React.ReactElement;
+  } else if (renderFailed && status.type === "failed") {
+    // Failed state: show why connecting failed
+    content = renderFailed({
+      error: status.error,
+      connect: handleConnect,
+    }) as React.ReactElement;
+  } else if (!isConnected) {
+    // Disconnected state: show connection UI
     content = renderDisconnected({
       connect: handleConnect,
       isLoading: state.isLoading,
       error: state.error,
     }) as React.ReactElement;
+  } else if (renderLocked && state.lockState === LOCK_STATE_LOCKED) {
+    // Locked state: ask the user to unlock the device
+    content = renderLocked({
+      disconnect,
+      deviceName: state.deviceInfo?.name,
+    }) as React.ReactElement;
   } else {
     // Connected state: show device management UI
-    const subsystems =
-      state.customSubsystems?.subsystems.map((s) => ({
-        index: s.index,
-        identifier: s.identifier,
-      })) ?? [];
+    const subsystems = state.customSubsystems?.subsystems ?? [];
 
     content = renderConnected({
       disconnect,
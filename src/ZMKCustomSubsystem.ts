@@ -3,9 +3,99 @@
  * Generic service for RPC communication with ZMK custom subsystems
  */
 
-import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type {
+  RpcConnection,
+  RequestResponse,
+} from "@zmkfirmware/zmk-studio-ts-client";
+import type { CustomNotification } from "@zmkfirmware/zmk-studio-ts-client/custom";
 import { call_rpc } from "@zmkfirmware/zmk-studio-ts-client";
-import { withTimeout } from "./utils";
+import { getConnectionSignal, RPC_NOT_FOUND, UNLOCK_REQUIRED } from "./rpc";
+import { withTimeout, ZMKTimeoutError } from "./utils";
+import { getZMKRequestScheduler } from "./ZMKRequestScheduler";
+import type { ZMKRequestPriority } from "./ZMKRequestScheduler";
+import type { ZMKLogger } from "./ZMKClient";
+
+/**
+ * Options for a single custom subsystem call
+ */
+export interface ZMKCallOptions {
+  /** Timeout in milliseconds (default: the "customCall" timeout, see configureZMKTimeouts) */
+  timeout?: number;
+  /** Aborts the call; it is also aborted when useZMKApp disconnects */
+  signal?: AbortSignal;
+  /** Queue position relative to other calls on the connection (default: "interactive") */
+  priority?: ZMKRequestPriority;
+  /**
+   * Share the result of an identical call (same subsystem, payload and
+   * timeout) that is still queued or in flight instead of sending it again
+   * (default: false). Aborting the signal only stops this caller waiting.
+   */
+  coalesce?: boolean;
+  /**
+   * Whether the call may be sent again by the retry policy (default: true)
+   * Set to false for calls that must not reach the device twice.
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Opt-in policy for retrying failed calls
+ *
+ * Timeouts are not retried by default: call_rpc sends one request at a time,
+ * and a call whose response never arrives keeps the lock until the
+ * connection closes. Its retries would wait for that lock and time out as
+ * well, so only opt in when responses may arrive late.
+ */
+export interface ZMKRetryPolicy {
+  /** Attempts including the first call (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled after each failure (default: 200ms) */
+  backoffMs?: number;
+  /** Upper bound of the delay between attempts (default: 2000ms) */
+  maxBackoffMs?: number;
+  /**
+   * Decide whether a failed attempt is retried (default: only "noResponse"
+   * meta errors, which the device answers without keeping the lock)
+   * Aborted calls are never retried.
+   * @param type - Category of the failure; "timeout" for ZMKTimeoutError,
+   *   "rpc" for errors that are not ZMKCustomSubsystemError
+   * @param error - The error thrown by the attempt
+   */
+  isRetryable?: (type: ZMKCustomSubsystemErrorType, error: unknown) => boolean;
+}
+
+/**
+ * Error reported by a subsystem in its response payload
+ */
+export interface ZMKSubsystemErrorInfo {
+  /** Subsystem-defined error code, used as ZMKCustomSubsystemError.code */
+  code: number;
+  /** Error message (default: "Subsystem <index> returned error <code>") */
+  message?: string;
+}
+
+/**
+ * Options for ZMKCustomSubsystem and ZMKTypedSubsystem
+ */
+export interface ZMKCustomSubsystemOptions {
+  /** Retry policy for calls; calls are not retried without one */
+  retry?: ZMKRetryPolicy;
+  /**
+   * Detect errors the subsystem reports in its response payload
+   * Return null for successful responses; an error makes callRPC throw a
+   * ZMKCustomSubsystemError of type "subsystem" with the given code.
+   */
+  decodeError?: (payload: Uint8Array) => ZMKSubsystemErrorInfo | null;
+  /**
+   * Receives log messages, such as notifications ZMKTypedSubsystem cannot
+   * decode (default: console); pass useZMKApp's logger to share it
+   */
+  logger?: ZMKLogger;
+}
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_BACKOFF_MS = 200;
+const DEFAULT_RETRY_MAX_BACKOFF_MS = 2000;
 
 /**
  * Service class for communicating with ZMK custom subsystems via RPC
@@ -18,46 +108,165 @@ import { withTimeout } from "./utils";
  * const service = new ZMKCustomSubsystem(connection, subsystemIndex);
  * const payload = new Uint8Array([1, 2, 3]); // Your protobuf payload
  * const response = await service.callRPC(payload);
+ *
+ * @example
+ * // Retry reads the device could not answer, but never the reset command
+ * const service = new ZMKCustomSubsystem(connection, subsystemIndex, {
+ *   retry: { maxAttempts: 3, backoffMs: 250 },
+ * });
+ * const settings = await service.callRPC(getSettingsPayload);
+ * await service.callRPC(resetPayload, { idempotent: false });
  */
 export class ZMKCustomSubsystem {
   private connection: RpcConnection;
   private subsystemIndex: number;
+  private retry?: ZMKRetryPolicy;
+  private decodeError?: (payload: Uint8Array) => ZMKSubsystemErrorInfo | null;
 
   /**
    * Create a new subsystem service instance
    * @param connection - Active RPC connection to the device
    * @param subsystemIndex - Index of the subsystem to communicate with
+   * @param options - Optional retry policy and subsystem error decoder
    */
-  constructor(connection: RpcConnection, subsystemIndex: number) {
+  constructor(
+    connection: RpcConnection,
+    subsystemIndex: number,
+    options: ZMKCustomSubsystemOptions = {}
+  ) {
     this.connection = connection;
     this.subsystemIndex = subsystemIndex;
+    this.retry = options.retry;
+    this.decodeError = options.decodeError;
   }
 
   /**
    * Send an RPC request to this subsystem
    * @param payload - Serialized protobuf payload to send
    * @param options - Optional configuration
-   * @param options.timeout - Timeout in milliseconds (default: 5000ms)
-   * @returns The response payload from the device, or null if no response
-   * @throws Error if the RPC call fails or times out
+   * @param options.timeout - Timeout in milliseconds (default: the "customCall" timeout, 5000ms unless configured)
+   * @param options.signal - Signal to cancel the call
+   * @param options.priority - Queue position relative to other calls on the connection
+   * @param options.coalesce - Share an identical queued or in-flight call
+   * @param options.idempotent - Allow the retry policy to send the call again
+   * @returns The response payload from the device, or null if it sent none
+   * @throws ZMKCustomSubsystemError of type "aborted" if the signal is aborted
+   *   or the connection is closed by useZMKApp.disconnect()
+   * @throws ZMKTimeoutError if the device does not answer in time
+   * @throws ZMKCustomSubsystemError of type "noResponse", "unlockRequired",
+   *   "rpcNotFound" or "rpc" (code: the meta error condition) if the device
+   *   rejects the request
+   * @throws ZMKCustomSubsystemError of type "subsystem" if decodeError
+   *   reports an error in the response
+   * @throws ZMKCustomSubsystemError of type "connection" if the connection is closed
+   * @throws The error of the last attempt when retries are exhausted
    */
   async callRPC(
     payload: Uint8Array,
-    options?: { timeout?: number }
+    options?: ZMKCallOptions
   ): Promise<Uint8Array | null> {
-    const timeout = options?.timeout ?? 5000;
-    const response = await withTimeout(
-      call_rpc(this.connection, {
-        custom: {
-          call: {
-            subsystemIndex: this.subsystemIndex,
-            payload,
-          },
-        },
-      }),
-      timeout
+    const connectionSignal = getConnectionSignal(this.connection);
+    const signals = [options?.signal, connectionSignal].filter(
+      (signal): signal is AbortSignal => !!signal
     );
-    return response.custom?.call?.payload || null;
+    if (signals.some((signal) => signal.aborted)) {
+      throw abortedError();
+    }
+
+    // The timeout starts when the scheduler sends the call. A coalesced call
+    // is shared, so only the connection can cancel it and its timeout is part
+    // of the key; each caller stops waiting on its own signal.
+    const send = async () => {
+      try {
+        return await withTimeout(
+          call_rpc(this.connection, {
+            custom: {
+              call: {
+                subsystemIndex: this.subsystemIndex,
+                payload,
+              },
+            },
+          }),
+          {
+            timeoutMs: options?.timeout,
+            operation: "customCall",
+            signal: options?.coalesce ? connectionSignal : signals,
+          }
+        );
+      } catch (error) {
+        throw toCustomSubsystemError(error);
+      }
+    };
+
+    const {
+      maxAttempts = DEFAULT_RETRY_ATTEMPTS,
+      backoffMs = DEFAULT_RETRY_BACKOFF_MS,
+      maxBackoffMs = DEFAULT_RETRY_MAX_BACKOFF_MS,
+      isRetryable = (type: ZMKCustomSubsystemErrorType) =>
+        type === "noResponse",
+    } = this.retry ?? {};
+    const attempts =
+      this.retry && options?.idempotent !== false ? maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await getZMKRequestScheduler(this.connection).schedule(
+          send,
+          {
+            priority: options?.priority,
+            key: options?.coalesce
+              ? `${this.subsystemIndex}:${options.timeout ?? ""}:${payload.join(",")}`
+              : undefined,
+            signal: signals,
+          }
+        );
+        // Decoded per caller, so each instance applies its own decodeError
+        return this.readResponse(response);
+      } catch (error) {
+        if (signals.some((signal) => signal.aborted)) {
+          throw abortedError();
+        }
+        if (attempt >= attempts || !isRetryable(errorType(error), error)) {
+          throw error;
+        }
+        const delay = Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs);
+        if (!(await sleep(delay, signals))) {
+          throw abortedError();
+        }
+      }
+    }
+  }
+
+  /**
+   * Extract the payload of a custom call response
+   * @throws ZMKCustomSubsystemError for meta errors, a missing call result
+   *   or an error reported by the subsystem
+   */
+  private readResponse(response: RequestResponse): Uint8Array | null {
+    // call_rpc does not throw for GENERIC (0) meta errors
+    if (response.meta) {
+      throw metaError(
+        response.meta.noResponse ? null : response.meta.simpleError
+      );
+    }
+    const call = response.custom?.call;
+    if (!call) {
+      throw new ZMKCustomSubsystemError(
+        "rpc",
+        "Response does not contain a custom call result"
+      );
+    }
+    const payload = call.payload || null;
+    const failure = payload && this.decodeError?.(payload);
+    if (failure) {
+      throw new ZMKCustomSubsystemError(
+        "subsystem",
+        failure.message ??
+          `Subsystem ${this.subsystemIndex} returned error ${failure.code}`,
+        failure.code
+      );
+    }
+    return payload;
   }
 
   /**
@@ -85,19 +294,347 @@ export class ZMKCustomSubsystem {
   }
 }
 
+/**
+ * Encoder/decoder for one protobuf message type
+ * Compatible with the `MessageFns` objects generated by ts-proto
+ */
+export interface ZMKMessageCodec<T> {
+  encode(message: T): { finish(): Uint8Array };
+  decode(input: Uint8Array): T;
+}
+
+/**
+ * Codecs for the messages exchanged with a custom subsystem
+ */
+export interface ZMKSubsystemCodec<Req, Res, Notif = never> {
+  /** Codec for requests sent to the subsystem */
+  request: ZMKMessageCodec<Req>;
+  /** Codec for responses returned by the subsystem */
+  response: ZMKMessageCodec<Res>;
+  /** Codec for notifications sent by the subsystem */
+  notification?: ZMKMessageCodec<Notif>;
+}
+
+/**
+ * Subscribe function with the signature of useZMKApp's onNotification
+ */
+type CustomNotificationSubscriber = (subscription: {
+  type: "custom";
+  subsystemIndex: number;
+  callback: (notification: CustomNotification) => void;
+}) => () => void;
+
+/**
+ * Typed client for a custom subsystem
+ *
+ * Wraps ZMKCustomSubsystem and encodes requests, decodes responses and
+ * decodes notifications with the given codecs, so callers work with their
+ * ts-proto messages instead of raw payloads.
+ *
+ * @example
+ * const client = new ZMKTypedSubsystem(connection, subsystem.index, {
+ *   request: Request,
+ *   response: Response,
+ *   notification: Notification,
+ * });
+ * const response = await client.call({ getSettings: {} });
+ * const unsubscribe = client.subscribe(onNotification, (notification) => {
+ *   console.log(notification);
+ * });
+ */
+export class ZMKTypedSubsystem<Req, Res, Notif = never> {
+  private subsystem: ZMKCustomSubsystem;
+  private codec: ZMKSubsystemCodec<Req, Res, Notif>;
+  private logger: ZMKLogger;
+
+  /**
+   * Create a new typed subsystem client
+   * @param connection - Active RPC connection to the device
+   * @param subsystemIndex - Index of the subsystem to communicate with
+   * @param codec - Codecs for requests, responses and notifications
+   * @param options - Optional retry policy and logger, as for ZMKCustomSubsystem
+   */
+  constructor(
+    connection: RpcConnection,
+    subsystemIndex: number,
+    codec: ZMKSubsystemCodec<Req, Res, Notif>,
+    options: ZMKCustomSubsystemOptions = {}
+  ) {
+    this.subsystem = new ZMKCustomSubsystem(
+      connection,
+      subsystemIndex,
+      options
+    );
+    this.codec = codec;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Send a request to this subsystem
+   * @param request - Request message to encode and send
+   * @param options - Optional configuration, as for ZMKCustomSubsystem.callRPC
+   * @returns The decoded response, or null if the device sent no payload
+   * @throws ZMKCustomSubsystemError of type "validation" if encoding or decoding fails
+   * @throws Error if the RPC call fails or times out
+   */
+  async call(request: Req, options?: ZMKCallOptions): Promise<Res | null> {
+    let payload: Uint8Array;
+    try {
+      payload = this.codec.request.encode(request).finish();
+    } catch (error) {
+      throw new ZMKCustomSubsystemError(
+        "validation",
+        `Failed to encode request: ${errorMessage(error)}`
+      );
+    }
+
+    const response = await this.subsystem.callRPC(payload, options);
+    if (!response) return null;
+    return decodeMessage(this.codec.response, response, "response");
+  }
+
+  /**
+   * Decode a notification sent by this subsystem
+   * @param notification - Custom notification from useZMKApp
+   * @returns The decoded notification message
+   * @throws ZMKCustomSubsystemError of type "validation" if the notification
+   *   is for another subsystem, no notification codec is set, or decoding fails
+   */
+  decodeNotification(notification: CustomNotification): Notif {
+    if (notification.subsystemIndex !== this.getSubsystemIndex()) {
+      throw new ZMKCustomSubsystemError(
+        "validation",
+        `Notification is for subsystem ${notification.subsystemIndex}, not ${this.getSubsystemIndex()}`
+      );
+    }
+    if (!this.codec.notification) {
+      throw new ZMKCustomSubsystemError(
+        "validation",
+        "No notification codec configured"
+      );
+    }
+    return decodeMessage(
+      this.codec.notification,
+      notification.payload,
+      "notification"
+    );
+  }
+
+  /**
+   * Subscribe to decoded notifications of this subsystem
+   * @param onNotification - onNotification from useZMKApp
+   * @param callback - Called with each decoded notification
+   * @param onError - Called when a notification cannot be decoded
+   *   (default: log it with the logger from the options)
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    onNotification: CustomNotificationSubscriber,
+    callback: (notification: Notif) => void,
+    onError: (error: ZMKCustomSubsystemError) => void = (error) =>
+      this.logger.error("Failed to decode custom notification", error)
+  ): () => void {
+    return onNotification({
+      type: "custom",
+      subsystemIndex: this.getSubsystemIndex(),
+      callback: (notification) => {
+        let decoded: Notif;
+        try {
+          decoded = this.decodeNotification(notification);
+        } catch (error) {
+          onError(error as ZMKCustomSubsystemError);
+          return;
+        }
+        callback(decoded);
+      },
+    });
+  }
+
+  /**
+   * Get the index of this subsystem
+   * @returns The subsystem index
+   */
+  getSubsystemIndex(): number {
+    return this.subsystem.getSubsystemIndex();
+  }
+
+  /**
+   * Get the untyped subsystem service used for the RPC calls
+   * @returns The ZMKCustomSubsystem instance
+   */
+  getSubsystem(): ZMKCustomSubsystem {
+    return this.subsystem;
+  }
+}
+
+/**
+ * Decode a payload, wrapping failures in a validation error
+ */
+function decodeMessage<T>(
+  codec: ZMKMessageCodec<T>,
+  payload: Uint8Array,
+  kind: "response" | "notification"
+): T {
+  try {
+    return codec.decode(payload);
+  } catch (error) {
+    throw new ZMKCustomSubsystemError(
+      "validation",
+      `Failed to decode ${kind}: ${errorMessage(error)}`
+    );
+  }
+}
+
+/**
+ * Category of an error thrown by a call attempt, for the retry policy
+ */
+function errorType(error: unknown): ZMKCustomSubsystemErrorType {
+  if (error instanceof ZMKCustomSubsystemError) return error.type;
+  if (error instanceof ZMKTimeoutError) return "timeout";
+  return "rpc";
+}
+
+/**
+ * Wait before retrying
+ * @returns false if a signal was aborted while waiting
+ */
+function sleep(ms: number, signals: AbortSignal[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const onAbort = () => done(false);
+    const timer = setTimeout(() => done(true), ms);
+    signals.forEach((signal) =>
+      signal.addEventListener("abort", onAbort, { once: true })
+    );
+    function done(elapsed: boolean) {
+      clearTimeout(timer);
+      signals.forEach((signal) => signal.removeEventListener("abort", onAbort));
+      resolve(elapsed);
+    }
+  });
+}
+
+/**
+ * Error for a meta error response
+ * @param condition - Meta error condition, or null for "no response"
+ * @param cause - Error thrown by call_rpc, if any
+ */
+function metaError(
+  condition: number | null | undefined,
+  cause?: unknown
+): ZMKCustomSubsystemError {
+  switch (condition) {
+    case null:
+      return new ZMKCustomSubsystemError(
+        "noResponse",
+        "Device did not respond to the request",
+        undefined,
+        cause
+      );
+    case UNLOCK_REQUIRED:
+      return new ZMKCustomSubsystemError(
+        "unlockRequired",
+        "Device is locked",
+        condition,
+        cause
+      );
+    case RPC_NOT_FOUND:
+      return new ZMKCustomSubsystemError(
+        "rpcNotFound",
+        "Device does not support custom subsystem calls",
+        condition,
+        cause
+      );
+    default:
+      return new ZMKCustomSubsystemError(
+        "rpc",
+        `Device returned meta error ${condition ?? "unknown"}`,
+        condition ?? undefined,
+        cause
+      );
+  }
+}
+
+/**
+ * Convert an error thrown by call_rpc into a ZMKCustomSubsystemError
+ * Timeouts and abort reasons are returned unchanged.
+ */
+function toCustomSubsystemError(error: unknown): unknown {
+  if (
+    error instanceof ZMKCustomSubsystemError ||
+    error instanceof ZMKTimeoutError
+  ) {
+    return error;
+  }
+  if (error instanceof Error && error.name === "AbortError") return error;
+  if (typeof error === "object" && error !== null) {
+    // MetaError and NoResponseError, checked by shape like isUnlockRequiredError
+    if ("condition" in error && typeof error.condition === "number") {
+      return metaError(error.condition, error);
+    }
+    if (
+      error instanceof Error &&
+      error.message === "No RPC response received"
+    ) {
+      return metaError(null, error);
+    }
+  }
+  // call_rpc throws this string when the response stream has ended
+  if (error === "No response") {
+    return new ZMKCustomSubsystemError(
+      "connection",
+      "Connection closed",
+      undefined,
+      error
+    );
+  }
+  return new ZMKCustomSubsystemError(
+    "rpc",
+    errorMessage(error),
+    undefined,
+    error
+  );
+}
+
+function abortedError(): ZMKCustomSubsystemError {
+  return new ZMKCustomSubsystemError("aborted", "RPC call was aborted");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Categories of ZMKCustomSubsystemError
+ * "noResponse", "unlockRequired" and "rpcNotFound" are meta errors of the
+ * device; "rpc" covers other meta errors and failed calls. "timeout" is how
+ * retry policies see a ZMKTimeoutError.
+ */
+export type ZMKCustomSubsystemErrorType =
+  | "connection"
+  | "rpc"
+  | "noResponse"
+  | "unlockRequired"
+  | "rpcNotFound"
+  | "subsystem"
+  | "validation"
+  | "aborted"
+  | "timeout";
+
 /**
  * Error types for ZMK service operations
+ * `cause` holds the original error when one was converted.
  */
 export class ZMKCustomSubsystemError extends Error {
-  public type: "connection" | "rpc" | "validation";
+  public type: ZMKCustomSubsystemErrorType;
   public code?: number;
 
   constructor(
-    type: "connection" | "rpc" | "validation",
+    type: ZMKCustomSubsystemErrorType,
     message: string,
-    code?: number
+    code?: number,
+    cause?: unknown
   ) {
-    super(message);
+    super(message, { cause });
     this.name = "ZMKCustomSubsystemError";
     this.type = type;
     this.code = code;
@@ -0,0 +1,238 @@
+/**
+ * ZMKDeviceManager
+ * Provider and hooks for managing several simultaneous ZMK device connections
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+import { useZMKApp } from "./useZMKApp";
+import type { UseZMKAppOptions, UseZMKAppReturn } from "./useZMKApp";
+import { ZMKAppContext } from "./ZMKAppContext";
+
+export interface ZMKDeviceManager {
+  /** IDs of all managed devices, in the order they were added */
+  deviceIds: string[];
+  /** Connection state and methods of each device, keyed by ID */
+  devices: Record<string, UseZMKAppReturn>;
+  /**
+   * Connect a device, adding it if the ID is new
+   * @returns The device ID (generated when omitted)
+   */
+  connect: (
+    connectFunction: () => Promise<RpcTransport>,
+    id?: string
+  ) => Promise<string>;
+  /** Disconnect a device but keep it in the collection */
+  disconnect: (id: string) => void;
+  /** Disconnect a device and remove it from the collection */
+  removeDevice: (id: string) => void;
+}
+
+export interface ZMKDeviceManagerProviderProps {
+  /** Options passed to useZMKApp for every device */
+  options?: UseZMKAppOptions;
+  children?: React.ReactNode;
+}
+
+/**
+ * Connect request waiting for its device slot to mount
+ */
+interface PendingConnect {
+  connectFunction: () => Promise<RpcTransport>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Context for the device manager
+ * Provided by ZMKDeviceManagerProvider
+ */
+export const ZMKDeviceManagerContext = createContext<ZMKDeviceManager | null>(
+  null
+);
+
+/**
+ * Runs useZMKApp for one device and reports it to the provider
+ */
+function ZMKDeviceSlot({
+  id,
+  options,
+  onUpdate,
+}: {
+  id: string;
+  options?: UseZMKAppOptions;
+  onUpdate: (id: string, zmkApp: UseZMKAppReturn) => void;
+}) {
+  const zmkApp = useZMKApp(options);
+
+  useEffect(() => {
+    onUpdate(id, zmkApp);
+  }, [id, zmkApp, onUpdate]);
+
+  return null;
+}
+
+/**
+ * Provider that keeps a keyed collection of device connections
+ *
+ * Each device runs its own useZMKApp instance, so it has its own device info,
+ * subsystems, lock state and notification subscriptions.
+ *
+ * @example
+ * <ZMKDeviceManagerProvider>
+ *   <SplitHalves />
+ * </ZMKDeviceManagerProvider>
+ *
+ * function SplitHalves() {
+ *   const { connect } = useZMKDeviceManager();
+ *   const left = useZMKDevice("left");
+ *   return <button onClick={() => connect(connect_serial, "left")}>Left</button>;
+ * }
+ */
+export function ZMKDeviceManagerProvider({
+  options,
+  children,
+}: ZMKDeviceManagerProviderProps) {
+  const [deviceIds, setDeviceIds] = useState<string[]>([]);
+  const [devices, setDevices] = useState<Record<string, UseZMKAppReturn>>({});
+
+  // Latest useZMKApp instance of each device, read by connect/disconnect
+  const devicesRef = useRef<Map<string, UseZMKAppReturn>>(new Map());
+  const pendingRef = useRef<Map<string, PendingConnect>>(new Map());
+  const nextIdRef = useRef(0);
+
+  /**
+   * Record the latest state of a device and start any pending connect
+   */
+  const handleUpdate = useCallback((id: string, zmkApp: UseZMKAppReturn) => {
+    devicesRef.current.set(id, zmkApp);
+    setDevices((prev) =>
+      prev[id] === zmkApp ? prev : { ...prev, [id]: zmkApp }
+    );
+
+    const pending = pendingRef.current.get(id);
+    if (pending) {
+      pendingRef.current.delete(id);
+      zmkApp
+        .connect(pending.connectFunction)
+        .then(pending.resolve, pending.reject);
+    }
+  }, []);
+
+  const connect = useCallback(
+    async (connectFunction: () => Promise<RpcTransport>, id?: string) => {
+      const deviceId = id ?? `device-${nextIdRef.current++}`;
+
+      const existing = devicesRef.current.get(deviceId);
+      if (existing) {
+        await existing.connect(connectFunction);
+        return deviceId;
+      }
+
+      // Connect once the device slot has mounted
+      await new Promise<void>((resolve, reject) => {
+        pendingRef.current
+          .get(deviceId)
+          ?.reject(new Error(`Connect to ${deviceId} was superseded`));
+        pendingRef.current.set(deviceId, { connectFunction, resolve, reject });
+        setDeviceIds((prev) =>
+          prev.includes(deviceId) ? prev : [...prev, deviceId]
+        );
+      });
+      return deviceId;
+    },
+    []
+  );
+
+  const disconnect = useCallback((id: string) => {
+    devicesRef.current.get(id)?.disconnect();
+  }, []);
+
+  const removeDevice = useCallback((id: string) => {
+    devicesRef.current.get(id)?.disconnect();
+    devicesRef.current.delete(id);
+    pendingRef.current.get(id)?.reject(new Error(`Device ${id} was removed`));
+    pendingRef.current.delete(id);
+
+    setDeviceIds((prev) => prev.filter((deviceId) => deviceId !== id));
+    setDevices((prev) => {
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const manager = useMemo(
+    () => ({ deviceIds, devices, connect, disconnect, removeDevice }),
+    [deviceIds, devices, connect, disconnect, removeDevice]
+  );
+
+  return (
+    <ZMKDeviceManagerContext.Provider value={manager}>
+      {deviceIds.map((id) => (
+        <ZMKDeviceSlot
+          key={id}
+          id={id}
+          options={options}
+          onUpdate={handleUpdate}
+        />
+      ))}
+      {children}
+    </ZMKDeviceManagerContext.Provider>
+  );
+}
+
+/**
+ * Access the device manager provided by ZMKDeviceManagerProvider
+ * @throws Error if used outside ZMKDeviceManagerProvider
+ */
+export function useZMKDeviceManager(): ZMKDeviceManager {
+  const manager = useContext(ZMKDeviceManagerContext);
+  if (!manager) {
+    throw new Error(
+      "useZMKDeviceManager must be used within ZMKDeviceManagerProvider"
+    );
+  }
+  return manager;
+}
+
+/**
+ * Select one device of the device manager
+ * @param id - Device ID
+ * @returns The device's useZMKApp state and methods, or null if unknown
+ */
+export function useZMKDevice(id: string): UseZMKAppReturn | null {
+  const { devices } = useZMKDeviceManager();
+  return devices[id] ?? null;
+}
+
+/**
+ * Provide one device of the device manager as ZMKAppContext
+ * Lets single-device hooks such as useZMKKeymap work with that device
+ *
+ * @example
+ * <ZMKDeviceProvider id="left">
+ *   <KeymapEditor />
+ * </ZMKDeviceProvider>
+ */
+export function ZMKDeviceProvider({
+  id,
+  children,
+}: {
+  id: string;
+  children?: React.ReactNode;
+}) {
+  const device = useZMKDevice(id);
+  return (
+    <ZMKAppContext.Provider value={device}>{children}</ZMKAppContext.Provider>
+  );
+}
@@ -0,0 +1,472 @@
+/**
+ * ZMKNotificationHub
+ * Reads a connection's notifications and dispatches them to subscribers
+ */
+
+import type {
+  RpcConnection,
+  Notification as StudioNotification,
+} from "@zmkfirmware/zmk-studio-ts-client";
+import type { Notification as CoreNotification } from "@zmkfirmware/zmk-studio-ts-client/core";
+import type { CustomNotification } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import type { Notification as KeymapNotification } from "@zmkfirmware/zmk-studio-ts-client/keymap";
+
+const DEFAULT_NOTIFICATION_HISTORY = 0;
+
+/**
+ * Buffered notifications to deliver to a new subscriber
+ * "last" replays the most recent one, a number up to that many (oldest first).
+ */
+export type ZMKNotificationReplay = "last" | number;
+
+/**
+ * Notification subscription types
+ * "any" receives every notification as read from the device, "unknown" those
+ * that are not core, keymap or custom notifications. The client decodes only
+ * those three, so variants added by newer firmware arrive as an empty object.
+ * `filter` skips notifications it returns false for, including replayed ones.
+ */
+export type NotificationSubscription =
+  | {
+      type: "core";
+      callback: (notification: CoreNotification) => void;
+      filter?: (notification: CoreNotification) => boolean;
+      replay?: ZMKNotificationReplay;
+    }
+  | {
+      type: "keymap";
+      callback: (notification: KeymapNotification) => void;
+      filter?: (notification: KeymapNotification) => boolean;
+      replay?: ZMKNotificationReplay;
+    }
+  | {
+      type: "custom";
+      subsystemIndex: number;
+      callback: (notification: CustomNotification) => void;
+      filter?: (notification: CustomNotification) => boolean;
+      replay?: ZMKNotificationReplay;
+    }
+  | {
+      type: "any" | "unknown";
+      callback: (notification: StudioNotification) => void;
+      filter?: (notification: StudioNotification) => boolean;
+      replay?: ZMKNotificationReplay;
+    };
+
+/**
+ * Notification delivered for a subscription type
+ */
+export type ZMKNotificationOfType<T extends NotificationSubscription["type"]> =
+  T extends "core"
+    ? CoreNotification
+    : T extends "keymap"
+      ? KeymapNotification
+      : T extends "custom"
+        ? CustomNotification
+        : StudioNotification;
+
+/**
+ * Subscription without its callback, for stream()
+ */
+export type ZMKNotificationStreamSource =
+  NotificationSubscription extends infer S
+    ? S extends NotificationSubscription
+      ? Omit<S, "callback">
+      : never
+    : never;
+
+export interface ZMKNotificationHubOptions {
+  /**
+   * Notifications kept per type (and per subsystem for custom notifications)
+   * for subscribers that ask for a replay (default: 0, no history)
+   */
+  history?: number;
+}
+
+export interface ZMKNotificationStreamOptions {
+  /** Ends the stream when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Notifications delivered on each channel not indexed by subsystem
+ */
+interface NotificationChannels {
+  core: CoreNotification;
+  keymap: KeymapNotification;
+  any: StudioNotification;
+  unknown: StudioNotification;
+}
+
+type NotificationChannel = keyof NotificationChannels;
+
+type NotificationCallbacks = {
+  [K in NotificationChannel]: Set<
+    (notification: NotificationChannels[K]) => void
+  >;
+};
+
+type NotificationHistory = {
+  [K in NotificationChannel]: NotificationChannels[K][];
+} & { custom: Map<number, CustomNotification[]> };
+
+/**
+ * Add a notification to a history buffer, dropping the oldest beyond the limit
+ */
+function appendToHistory<T>(buffer: T[], notification: T, limit: number) {
+  buffer.push(notification);
+  if (buffer.length > limit) {
+    buffer.splice(0, buffer.length - limit);
+  }
+}
+
+/**
+ * Deliver buffered notifications to a new subscriber
+ */
+function replayHistory<T>(
+  buffer: T[],
+  replay: ZMKNotificationReplay | undefined,
+  callback: (notification: T) => void,
+  filter?: (notification: T) => boolean
+): void {
+  if (replay === undefined) return;
+  const count = replay === "last" ? 1 : replay;
+  if (count <= 0) return;
+  // Copy, so notifications dispatched by the callback are not replayed
+  const matching = filter ? buffer.filter(filter) : buffer.slice();
+  matching.slice(-count).forEach((notification) => callback(notification));
+}
+
+/**
+ * Callback that only receives notifications passing the filter
+ */
+function withFilter<T>(
+  callback: (notification: T) => void,
+  filter?: (notification: T) => boolean
+): (notification: T) => void {
+  if (!filter) return callback;
+  return (notification) => {
+    if (filter(notification)) callback(notification);
+  };
+}
+
+function createNotificationCallbacks(): NotificationCallbacks {
+  return {
+    core: new Set(),
+    keymap: new Set(),
+    any: new Set(),
+    unknown: new Set(),
+  };
+}
+
+function createNotificationHistory(): NotificationHistory {
+  return { core: [], keymap: [], any: [], unknown: [], custom: new Map() };
+}
+
+/**
+ * Framework-agnostic notification dispatcher
+ *
+ * Owns the reader of a connection's notification stream and dispatches each
+ * notification to the subscriptions of its type. Subscriptions and history
+ * belong to the hub, not the connection: attaching another connection (for
+ * example after reconnecting) keeps them. useZMKApp is built on a hub.
+ *
+ * @example
+ * const hub = new ZMKNotificationHub(connection);
+ * hub.subscribe({ type: "core", callback: (n) => console.log(n.lockStateChanged) });
+ * for await (const notification of hub.stream({ type: "custom", subsystemIndex: 0 })) {
+ *   console.log(notification.payload);
+ * }
+ */
+export class ZMKNotificationHub {
+  private history: number;
+  private callbacks = createNotificationCallbacks();
+  // Custom notifications need a Map since they're indexed by subsystem
+  private customCallbacks = new Map<
+    number,
+    Set<(notification: CustomNotification) => void>
+  >();
+  private buffers = createNotificationHistory();
+  private reader: ReadableStreamDefaultReader<StudioNotification> | null = null;
+  private streamEnders = new Set<() => void>();
+
+  /**
+   * Create a new hub
+   * @param connection - Connection to read notifications from, if any; errors
+   *   reading it are not reported, use attach() to handle them
+   * @param options - History size
+   */
+  constructor(
+    connection?: RpcConnection | null,
+    options: ZMKNotificationHubOptions = {}
+  ) {
+    this.history = options.history ?? DEFAULT_NOTIFICATION_HISTORY;
+    if (connection) {
+      this.attach(connection).catch(() => {});
+    }
+  }
+
+  /**
+   * Read notifications from a connection, instead of the current one
+   * @param connection - Connection whose notification stream to read
+   * @returns Resolves when the stream ends or the hub is detached
+   * @throws The read error if reading the stream fails
+   */
+  async attach(connection: RpcConnection): Promise<void> {
+    this.detach();
+    const reader = connection.notification_readable.getReader();
+    this.reader = reader;
+
+    try {
+      while (this.reader === reader) {
+        const { done, value } = await reader.read();
+        if (done || this.reader !== reader) break;
+        this.dispatch(value);
+      }
+    } catch (error) {
+      // Detaching fails the pending read
+      if (this.reader === reader) throw error;
+    } finally {
+      if (this.reader === reader) this.reader = null;
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Stop reading the current connection; subscriptions and history are kept
+   */
+  detach(): void {
+    const reader = this.reader;
+    this.reader = null;
+    try {
+      reader?.releaseLock();
+    } catch {
+      // Older stream implementations refuse to release with a pending read;
+      // the read loop releases the lock when that read settles
+    }
+  }
+
+  /**
+   * Change how many notifications are kept per type for replays
+   * @param limit - New size; 0 or undefined turns the history off
+   */
+  setHistory(limit?: number): void {
+    this.history = limit ?? DEFAULT_NOTIFICATION_HISTORY;
+  }
+
+  /**
+   * Subscribe to notifications
+   * @param subscription - Notification type, callback, filter and replay;
+   *   with `replay`, buffered notifications are delivered before this returns
+   * @returns Unsubscribe function to stop receiving notifications
+   */
+  subscribe(subscription: NotificationSubscription): () => void {
+    switch (subscription.type) {
+      case "core":
+        return this.subscribeChannel("core", subscription);
+      case "keymap":
+        return this.subscribeChannel("keymap", subscription);
+      case "any":
+      case "unknown":
+        return this.subscribeChannel(subscription.type, subscription);
+    }
+
+    // Subscribe to custom notifications for a specific subsystem
+    const { subsystemIndex, callback, filter } = subscription;
+    const listener = withFilter(callback, filter);
+    let callbacks = this.customCallbacks.get(subsystemIndex);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.customCallbacks.set(subsystemIndex, callbacks);
+    }
+    callbacks.add(listener);
+    replayHistory(
+      this.buffers.custom.get(subsystemIndex) ?? [],
+      subscription.replay,
+      callback,
+      filter
+    );
+
+    return () => {
+      const callbacks = this.customCallbacks.get(subsystemIndex);
+      if (callbacks) {
+        callbacks.delete(listener);
+        // Clean up empty sets to prevent memory leaks
+        if (callbacks.size === 0) {
+          this.customCallbacks.delete(subsystemIndex);
+        }
+      }
+    };
+  }
+
+  /**
+   * Iterate over notifications
+   *
+   * Notifications arriving between iterations are queued. The stream ends
+   * when the iteration stops (break), the signal aborts, or the hub is
+   * cleared or closed.
+   *
+   * @param source - Subscription without callback
+   * @param options - Abort signal
+   * @returns Async iterator of notifications of the source's type
+   *
+   * @example
+   * for await (const notification of hub.stream({ type: "keymap" })) {
+   *   console.log(notification.unsavedChangesStatusChanged);
+   * }
+   */
+  stream<S extends ZMKNotificationStreamSource>(
+    source: S,
+    options: ZMKNotificationStreamOptions = {}
+  ): AsyncIterableIterator<ZMKNotificationOfType<S["type"]>> {
+    type T = ZMKNotificationOfType<S["type"]>;
+    const { signal } = options;
+    const queue: T[] = [];
+    let waiting: ((result: IteratorResult<T>) => void) | null = null;
+    let ended = false;
+
+    const unsubscribe = this.subscribe({
+      ...source,
+      callback: (notification: T) => {
+        if (waiting) {
+          waiting({ done: false, value: notification });
+          waiting = null;
+        } else {
+          queue.push(notification);
+        }
+      },
+    } as NotificationSubscription);
+
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      unsubscribe();
+      this.streamEnders.delete(end);
+      signal?.removeEventListener("abort", end);
+      waiting?.({ done: true, value: undefined });
+      waiting = null;
+    };
+    this.streamEnders.add(end);
+    if (signal?.aborted) {
+      end();
+    } else {
+      signal?.addEventListener("abort", end, { once: true });
+    }
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ done: false, value: queue.shift() as T });
+        }
+        if (ended) return Promise.resolve({ done: true, value: undefined });
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        end();
+        queue.length = 0;
+        return Promise.resolve({ done: true, value: undefined });
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+
+  /**
+   * Drop all subscriptions and history, and end all streams
+   */
+  clear(): void {
+    this.callbacks = createNotificationCallbacks();
+    this.customCallbacks.clear();
+    this.buffers = createNotificationHistory();
+    this.streamEnders.forEach((end) => end());
+  }
+
+  /**
+   * Stop reading and drop all subscriptions, history and streams
+   */
+  close(): void {
+    this.detach();
+    this.clear();
+  }
+
+  /**
+   * Dispatch a notification read from the device to its subscribers
+   */
+  private dispatch(notification: StudioNotification): void {
+    if (notification.core) {
+      this.dispatchChannel("core", notification.core);
+    } else if (notification.keymap) {
+      this.dispatchChannel("keymap", notification.keymap);
+    } else if (notification.custom?.customNotification) {
+      this.dispatchCustom(notification.custom.customNotification);
+    } else {
+      this.dispatchChannel("unknown", notification);
+    }
+    this.dispatchChannel("any", notification);
+  }
+
+  /**
+   * Dispatch notification to all registered callbacks for a given channel
+   */
+  private dispatchChannel<K extends NotificationChannel>(
+    type: K,
+    notification: NotificationChannels[K]
+  ): void {
+    appendToHistory(
+      this.buffers[type] as NotificationChannels[K][],
+      notification,
+      this.history
+    );
+    (
+      this.callbacks[type] as Set<
+        (notification: NotificationChannels[K]) => void
+      >
+    ).forEach((callback) => callback(notification));
+  }
+
+  /**
+   * Dispatch custom notification to all registered callbacks for a subsystem
+   */
+  private dispatchCustom(notification: CustomNotification): void {
+    let buffer = this.buffers.custom.get(notification.subsystemIndex);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.custom.set(notification.subsystemIndex, buffer);
+    }
+    appendToHistory(buffer, notification, this.history);
+
+    this.customCallbacks
+      .get(notification.subsystemIndex)
+      ?.forEach((callback) => callback(notification));
+  }
+
+  /**
+   * Subscribe to a channel not indexed by subsystem
+   */
+  private subscribeChannel<K extends NotificationChannel>(
+    type: K,
+    subscription: {
+      callback: (notification: NotificationChannels[K]) => void;
+      filter?: (notification: NotificationChannels[K]) => boolean;
+      replay?: ZMKNotificationReplay;
+    }
+  ): () => void {
+    const { callback, filter, replay } = subscription;
+    const listener = withFilter(callback, filter);
+    const callbacks = this.callbacks[type] as Set<
+      (notification: NotificationChannels[K]) => void
+    >;
+    callbacks.add(listener);
+    replayHistory(
+      this.buffers[type] as NotificationChannels[K][],
+      replay,
+      callback,
+      filter
+    );
+    return () => {
+      callbacks.delete(listener);
+    };
+  }
+}
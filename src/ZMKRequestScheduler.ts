@@ -0,0 +1,287 @@
+/**
+ * ZMKRequestScheduler
+ * Per-connection queue for custom subsystem RPC calls
+ */
+
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import { abortReason } from "./utils";
+
+/**
+ * Priority of a scheduled request
+ * Interactive requests (user actions) run before background ones (polling).
+ */
+export type ZMKRequestPriority = "interactive" | "background";
+
+export interface ZMKRequestSchedulerOptions {
+  /**
+   * Maximum number of requests in flight; 1 serializes them (default: 1)
+   * call_rpc itself sends one request at a time, so a higher limit only
+   * helps tasks that do more than a single call_rpc.
+   */
+  concurrency?: number;
+}
+
+export interface ZMKScheduleOptions {
+  /** Queue position relative to other requests (default: "interactive") */
+  priority?: ZMKRequestPriority;
+  /**
+   * Requests with the same key share one queued or in-flight request
+   * instead of running again
+   */
+  key?: string;
+  /**
+   * Signal(s) that stop the caller waiting; the request is removed from the
+   * queue when every caller sharing it has stopped waiting before it starts
+   */
+  signal?: AbortSignal | AbortSignal[];
+}
+
+/**
+ * Snapshot of the scheduler's queue, for debugging
+ */
+export interface ZMKSchedulerStats {
+  /** Requests waiting to start */
+  queued: number;
+  /** Requests waiting to start, by priority */
+  queuedByPriority: Record<ZMKRequestPriority, number>;
+  /** Requests started but not settled */
+  inFlight: number;
+}
+
+/**
+ * Caller waiting for a request to settle
+ */
+interface Caller {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  /** Removes the abort listeners */
+  release: () => void;
+}
+
+/**
+ * Request in the queue or in flight
+ */
+interface ScheduledRequest {
+  priority: ZMKRequestPriority;
+  run: () => Promise<unknown>;
+  key?: string;
+  started: boolean;
+  /** Callers sharing the request; more than one when coalesced */
+  callers: Caller[];
+}
+
+const PRIORITY_ORDER: Record<ZMKRequestPriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+/**
+ * Queue that runs requests with a concurrency limit and priorities
+ *
+ * ZMKCustomSubsystem schedules its calls on the scheduler of their
+ * connection, so calls from different components do not interleave on the
+ * single RPC connection. Keymap and behavior RPCs do not go through the
+ * scheduler, so its stats only count custom subsystem calls.
+ *
+ * @example
+ * const scheduler = getZMKRequestScheduler(connection);
+ * scheduler.setConcurrency(2);
+ * const unsubscribe = scheduler.subscribe((stats) => console.log(stats.queued));
+ */
+export class ZMKRequestScheduler {
+  private concurrency: number;
+  private queue: ScheduledRequest[] = [];
+  private inFlight = 0;
+  private pendingByKey = new Map<string, ScheduledRequest>();
+  private listeners = new Set<(stats: ZMKSchedulerStats) => void>();
+
+  /**
+   * Create a new scheduler
+   * @param options - Concurrency limit
+   */
+  constructor(options: ZMKRequestSchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+  }
+
+  /**
+   * Queue a request
+   * @param task - Function that sends the request; called when the request starts
+   * @param options - Priority, coalescing key and abort signal
+   * @returns The result of the task, or of the pending request with the same key
+   * @throws The signal's abort reason if aborted before the request settles
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    options: ZMKScheduleOptions = {}
+  ): Promise<T> {
+    const { priority = "interactive", key, signal } = options;
+    const signals = signal ? [signal].flat() : [];
+
+    return new Promise<T>((resolve, reject) => {
+      const aborted = signals.find((s) => s.aborted);
+      if (aborted) {
+        reject(abortReason(aborted));
+        return;
+      }
+
+      const shared = key !== undefined ? this.pendingByKey.get(key) : undefined;
+      const request: ScheduledRequest = shared ?? {
+        priority,
+        run: task,
+        key,
+        started: false,
+        callers: [],
+      };
+
+      const listeners = signals.map((s) => {
+        const onAbort = () => this.leave(request, caller, abortReason(s));
+        s.addEventListener("abort", onAbort, { once: true });
+        return () => s.removeEventListener("abort", onAbort);
+      });
+      const caller: Caller = {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        release: () => listeners.forEach((remove) => remove()),
+      };
+      request.callers.push(caller);
+      if (shared) return;
+
+      if (key !== undefined) {
+        this.pendingByKey.set(key, request);
+      }
+      // Behind every request of the same or higher priority
+      const position = this.queue.findIndex(
+        (queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority]
+      );
+      if (position === -1) {
+        this.queue.push(request);
+      } else {
+        this.queue.splice(position, 0, request);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Change the maximum number of requests in flight
+   * @param concurrency - New limit, at least 1
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, concurrency);
+    this.drain();
+  }
+
+  /**
+   * Get the current queue depth
+   * @returns Snapshot of queued and in-flight requests
+   */
+  getStats(): ZMKSchedulerStats {
+    const queuedByPriority = { interactive: 0, background: 0 };
+    this.queue.forEach((request) => queuedByPriority[request.priority]++);
+    return {
+      queued: this.queue.length,
+      queuedByPriority,
+      inFlight: this.inFlight,
+    };
+  }
+
+  /**
+   * Listen for queue changes
+   * @param listener - Called with new stats whenever a request is queued, starts or settles
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (stats: ZMKSchedulerStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start queued requests while below the concurrency limit
+   */
+  private drain() {
+    while (this.inFlight < this.concurrency && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      request.started = true;
+      this.inFlight++;
+
+      const settle = (fn: (caller: Caller) => void) => {
+        this.forget(request);
+        request.callers.forEach((caller) => {
+          caller.release();
+          fn(caller);
+        });
+        request.callers = [];
+        this.inFlight--;
+        this.drain();
+      };
+      let started: Promise<unknown>;
+      try {
+        started = request.run();
+      } catch (error) {
+        started = Promise.reject(error);
+      }
+      started.then(
+        (value) => settle((caller) => caller.resolve(value)),
+        (error) => settle((caller) => caller.reject(error))
+      );
+    }
+    this.notify();
+  }
+
+  /**
+   * Stop waiting for a request after the caller's signal aborted
+   * A queued request is dropped once no caller waits for it; a started one
+   * keeps running.
+   */
+  private leave(request: ScheduledRequest, caller: Caller, reason: unknown) {
+    const index = request.callers.indexOf(caller);
+    if (index === -1) return;
+    request.callers.splice(index, 1);
+    caller.release();
+    caller.reject(reason);
+
+    if (request.started || request.callers.length > 0) return;
+    this.queue.splice(this.queue.indexOf(request), 1);
+    this.forget(request);
+    this.notify();
+  }
+
+  /**
+   * Stop sharing a request with later callers of the same key
+   */
+  private forget(request: ScheduledRequest) {
+    if (
+      request.key !== undefined &&
+      this.pendingByKey.get(request.key) === request
+    ) {
+      this.pendingByKey.delete(request.key);
+    }
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) return;
+    const stats = this.getStats();
+    this.listeners.forEach((listener) => listener(stats));
+  }
+}
+
+// Scheduler of each connection, created on first use
+const schedulers = new WeakMap<RpcConnection, ZMKRequestScheduler>();
+
+/**
+ * Get the scheduler shared by all custom subsystem calls on a connection
+ * @param connection - RPC connection
+ * @returns The connection's scheduler
+ */
+export function getZMKRequestScheduler(
+  connection: RpcConnection
+): ZMKRequestScheduler {
+  let scheduler = schedulers.get(connection);
+  if (!scheduler) {
+    scheduler = new ZMKRequestScheduler();
+    schedulers.set(connection, scheduler);
+  }
+  return scheduler;
+}
@@ -0,0 +1,210 @@
+/**
+ * ZMKSubsystemFrame Component
+ * Embeds the web UI declared by a custom subsystem and bridges it to the device
+ */
+
+import React, { useContext, useEffect, useRef } from "react";
+import type { CustomNotification } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import { ZMKAppContext } from "./ZMKAppContext";
+import { ZMKCustomSubsystemError } from "./ZMKCustomSubsystem";
+import type { ZMKCustomSubsystemErrorType } from "./ZMKCustomSubsystem";
+import { useZMKSubsystem } from "./useZMKSubsystem";
+
+const DEFAULT_SANDBOX = "allow-scripts allow-same-origin allow-forms";
+
+/**
+ * Messages the embedded UI sends to the host
+ */
+export type ZMKSubsystemFrameRequest = {
+  type: "zmk-subsystem:call";
+  /** Chosen by the UI to match the response to the call */
+  id: string | number;
+  payload: Uint8Array;
+};
+
+/**
+ * Messages the host sends to the embedded UI
+ */
+export type ZMKSubsystemFrameMessage =
+  | {
+      type: "zmk-subsystem:response";
+      id: string | number;
+      payload: Uint8Array | null;
+    }
+  | {
+      type: "zmk-subsystem:error";
+      id: string | number;
+      error: {
+        name: string;
+        message: string;
+        type?: ZMKCustomSubsystemErrorType;
+        code?: number;
+      };
+    }
+  | { type: "zmk-subsystem:notification"; payload: Uint8Array };
+
+export interface ZMKSubsystemFrameProps {
+  /** Identifier of the subsystem whose UI to embed */
+  identifier: string;
+  /**
+   * Origins the UI may be loaded from and exchange messages with
+   * The first uiUrl of the subsystem with an allowed origin is loaded.
+   */
+  allowedOrigins: string[];
+  /**
+   * iframe sandbox flags (default: "allow-scripts allow-same-origin allow-forms")
+   * allow-same-origin keeps the UI's own origin, so replies can be checked.
+   */
+  sandbox?: string;
+  /**
+   * Load a UI served from the host page's own origin (default: false)
+   * With allow-scripts and allow-same-origin such a UI can remove its
+   * sandbox and script the host page, so only allow it for trusted UIs.
+   */
+  allowHostOrigin?: boolean;
+  /** iframe title (default: the identifier) */
+  title?: string;
+  className?: string;
+  style?: React.CSSProperties;
+  /** Rendered when not connected or the subsystem has no allowed UI URL */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Find the first UI URL with an allowed origin
+ * URLs on the host page's origin are skipped unless allowHostOrigin is set.
+ */
+function selectUiUrl(
+  uiUrls: string[],
+  allowedOrigins: string[],
+  allowHostOrigin: boolean
+): { url: string; origin: string } | null {
+  for (const url of uiUrls) {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      continue;
+    }
+    if (!allowHostOrigin && origin === window.location.origin) continue;
+    if (allowedOrigins.includes(origin)) return { url, origin };
+  }
+  return null;
+}
+
+function isCallRequest(data: unknown): data is ZMKSubsystemFrameRequest {
+  if (typeof data !== "object" || data === null) return false;
+  const message = data as Partial<ZMKSubsystemFrameRequest>;
+  return (
+    message.type === "zmk-subsystem:call" &&
+    (typeof message.id === "string" || typeof message.id === "number") &&
+    message.payload instanceof Uint8Array
+  );
+}
+
+/**
+ * Embed a custom subsystem's web UI in a sandboxed iframe
+ *
+ * Loads the subsystem's declared UI URL and bridges it to the device connected
+ * through ZMKAppContext over postMessage: `zmk-subsystem:call` requests from
+ * the frame are sent with callRPC, and the subsystem's notifications are
+ * forwarded. Messages from other windows or origins are ignored.
+ *
+ * @example
+ * <ZMKSubsystemFrame
+ *   identifier="rgb_effects"
+ *   allowedOrigins={["https://rgb-effects.example.com"]}
+ *   fallback={<p>Connect a keyboard with the RGB effects module</p>}
+ * />
+ *
+ * // Inside the embedded UI
+ * window.parent.postMessage({ type: "zmk-subsystem:call", id: 1, payload }, hostOrigin);
+ */
+export function ZMKSubsystemFrame({
+  identifier,
+  allowedOrigins,
+  sandbox = DEFAULT_SANDBOX,
+  allowHostOrigin = false,
+  title,
+  className,
+  style,
+  fallback = null,
+}: ZMKSubsystemFrameProps) {
+  const zmkApp = useContext(ZMKAppContext);
+  const record = zmkApp?.findSubsystem(identifier) ?? null;
+  const target = record
+    ? selectUiUrl(record.uiUrl, allowedOrigins, allowHostOrigin)
+    : null;
+  const targetOrigin = target?.origin ?? null;
+
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  const { call } = useZMKSubsystem(identifier, {
+    onNotification: (notification: CustomNotification) => {
+      if (!targetOrigin) return;
+      const message: ZMKSubsystemFrameMessage = {
+        type: "zmk-subsystem:notification",
+        payload: notification.payload,
+      };
+      iframeRef.current?.contentWindow?.postMessage(message, targetOrigin);
+    },
+  });
+
+  /**
+   * Effect: Answer call requests from the embedded UI
+   */
+  useEffect(() => {
+    if (!targetOrigin) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const frameWindow = iframeRef.current?.contentWindow;
+      if (!frameWindow || event.source !== frameWindow) return;
+      if (event.origin !== targetOrigin) return;
+      if (!isCallRequest(event.data)) return;
+
+      const { id, payload } = event.data;
+      const reply = (message: ZMKSubsystemFrameMessage) =>
+        frameWindow.postMessage(message, targetOrigin);
+      call(payload).then(
+        (response) =>
+          reply({ type: "zmk-subsystem:response", id, payload: response }),
+        (error: unknown) =>
+          reply({
+            type: "zmk-subsystem:error",
+            id,
+            error:
+              error instanceof ZMKCustomSubsystemError
+                ? {
+                    name: error.name,
+                    message: error.message,
+                    type: error.type,
+                    code: error.code,
+                  }
+                : {
+                    name: error instanceof Error ? error.name : "Error",
+                    message:
+                      error instanceof Error ? error.message : String(error),
+                  },
+          })
+      );
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [call, targetOrigin]);
+
+  if (!zmkApp?.isConnected || !target) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <iframe
+      ref={iframeRef}
+      src={target.url}
+      sandbox={sandbox}
+      title={title ?? identifier}
+      className={className}
+      style={style}
+    />
+  );
+}
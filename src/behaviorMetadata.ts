@@ -0,0 +1,55 @@
+/**
+ * Behavior metadata helpers
+ * Framework-agnostic parameter and HID usage helpers, shared by the behavior
+ * and keymap transfer hooks and the devicetree generator
+ */
+
+import type { GetBehaviorDetailsResponse } from "@zmkfirmware/zmk-studio-ts-client/behaviors";
+
+// HID usage pages, as encoded in the upper half of a usage
+export const HID_USAGE_PAGE_KEYBOARD = 0x07;
+export const HID_USAGE_PAGE_CONSUMER = 0x0c;
+
+export type BehaviorParameter = "param1" | "param2";
+
+/**
+ * Split an encoded HID usage into its parts
+ * Usages are encoded as (page << 16) | id with modifiers in the top byte.
+ *
+ * @example
+ * decodeHidUsage(0x02070004); // { modifiers: 0x02, page: 0x07, id: 0x04 }
+ */
+export function decodeHidUsage(value: number) {
+  return {
+    modifiers: (value >>> 24) & 0xff,
+    page: (value >>> 16) & 0xff,
+    id: value & 0xffff,
+  };
+}
+
+/**
+ * Whether a HID usage page is the keyboard page (0 is shorthand for it)
+ */
+export function isKeyboardPage(page: number): boolean {
+  return page === 0 || page === HID_USAGE_PAGE_KEYBOARD;
+}
+
+/**
+ * Whether any parameter set of a behavior takes a HID usage for `param`
+ */
+export function acceptsHidUsage(
+  behavior: GetBehaviorDetailsResponse,
+  param: BehaviorParameter
+): boolean {
+  return behavior.metadata.some((set) => set[param].some((d) => d.hidUsage));
+}
+
+/**
+ * Whether any parameter set of a behavior takes a layer ID for `param`
+ */
+export function refersToLayer(
+  behavior: GetBehaviorDetailsResponse,
+  param: BehaviorParameter
+): boolean {
+  return behavior.metadata.some((set) => set[param].some((d) => d.layerId));
+}
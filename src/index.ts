@@ -4,17 +4,144 @@
  */
 
 export { useZMKApp } from "./useZMKApp";
+export { ZMKClient, ZMKConnectionError } from "./ZMKClient";
+export { useZMKKeymap } from "./useZMKKeymap";
+export { ZMKKeymapError } from "./keymapRpc";
+export {
+  usePhysicalLayouts,
+  normalizePhysicalLayout,
+} from "./usePhysicalLayouts";
+export {
+  useZMKBehaviors,
+  validateBehaviorBinding,
+  clearZMKBehaviorCache,
+} from "./useZMKBehaviors";
+export {
+  useZMKKeymapTransfer,
+  exportKeymapDocument,
+  parseKeymapDocument,
+  diffKeymapDocument,
+  ZMKKeymapDocumentError,
+  ZMK_KEYMAP_DOCUMENT_FORMAT,
+  ZMK_KEYMAP_DOCUMENT_VERSION,
+} from "./useZMKKeymapTransfer";
+export {
+  generateKeymapDevicetree,
+  ZMKKeymapDevicetreeError,
+} from "./keymapDevicetree";
 export {
   ZMKCustomSubsystem,
   ZMKCustomSubsystemError,
+  ZMKTypedSubsystem,
 } from "./ZMKCustomSubsystem";
+export { useZMKSubsystem } from "./useZMKSubsystem";
+export { useZMKNotification } from "./useZMKNotification";
+export { ZMKNotificationHub } from "./ZMKNotificationHub";
+export { ZMKSubsystemFrame } from "./ZMKSubsystemFrame";
+export {
+  createZMKBridgeHost,
+  connectViaBridge,
+  ZMKBridgeError,
+} from "./ZMKBridge";
+export {
+  ZMKRequestScheduler,
+  getZMKRequestScheduler,
+} from "./ZMKRequestScheduler";
 export { ZMKConnection } from "./ZMKConnection";
+export {
+  ZMKDeviceManagerProvider,
+  ZMKDeviceManagerContext,
+  ZMKDeviceProvider,
+  useZMKDeviceManager,
+  useZMKDevice,
+} from "./ZMKDeviceManager";
 export { ZMKAppContext } from "./ZMKAppContext";
-export { withTimeout } from "./utils";
+export {
+  withTimeout,
+  ZMKTimeoutError,
+  configureZMKTimeouts,
+  getZMKTimeout,
+} from "./utils";
+export { callZMKRPC, isUnlockRequiredError, ZMKLockedError } from "./rpc";
 
+export type { UseZMKAppReturn, UseZMKAppOptions } from "./useZMKApp";
 export type {
   ZMKAppState,
-  UseZMKAppReturn,
+  ZMKClientOptions,
+  ZMKReconnectOptions,
+  ZMKConnectionTimeouts,
+  ZMKLogger,
+  ZMKConnectionStatus,
+  ZMKConnectionErrorKind,
+} from "./ZMKClient";
+export type {
   NotificationSubscription,
-} from "./useZMKApp";
+  ZMKNotificationReplay,
+  ZMKNotificationOfType,
+  ZMKNotificationStreamSource,
+  ZMKNotificationHubOptions,
+  ZMKNotificationStreamOptions,
+} from "./ZMKNotificationHub";
+export type {
+  ZMKMessageCodec,
+  ZMKSubsystemCodec,
+  ZMKCallOptions,
+  ZMKRetryPolicy,
+  ZMKCustomSubsystemOptions,
+  ZMKSubsystemErrorInfo,
+  ZMKCustomSubsystemErrorType,
+} from "./ZMKCustomSubsystem";
+export type {
+  UseZMKSubsystemReturn,
+  UseZMKSubsystemOptions,
+} from "./useZMKSubsystem";
+export type {
+  ZMKNotificationSource,
+  ZMKNotificationOf,
+} from "./useZMKNotification";
+export type {
+  ZMKRequestPriority,
+  ZMKRequestSchedulerOptions,
+  ZMKScheduleOptions,
+  ZMKSchedulerStats,
+} from "./ZMKRequestScheduler";
+export type {
+  ZMKSubsystemFrameProps,
+  ZMKSubsystemFrameRequest,
+  ZMKSubsystemFrameMessage,
+} from "./ZMKSubsystemFrame";
+export type {
+  ZMKBridgeHost,
+  ZMKBridgeHostOptions,
+  ConnectViaBridgeOptions,
+  ZMKBridgeMessage,
+} from "./ZMKBridge";
 export type { ZMKConnectionProps } from "./ZMKConnection";
+export type { WithTimeoutOptions, ZMKTimeoutOperation } from "./utils";
+export type {
+  ZMKDeviceManager,
+  ZMKDeviceManagerProviderProps,
+} from "./ZMKDeviceManager";
+export type { UseZMKKeymapReturn } from "./useZMKKeymap";
+export type { ZMKKeymapOperation } from "./keymapRpc";
+export type {
+  UsePhysicalLayoutsReturn,
+  ZMKPhysicalLayout,
+  ZMKKeyGeometry,
+} from "./usePhysicalLayouts";
+export type {
+  UseZMKBehaviorsReturn,
+  ZMKBindingValidationOptions,
+} from "./useZMKBehaviors";
+export type {
+  UseZMKKeymapTransferReturn,
+  UseZMKKeymapTransferOptions,
+  ZMKKeymapDocument,
+  ZMKKeymapDocumentLayer,
+  ZMKKeymapDocumentBinding,
+  ZMKKeymapDocumentContext,
+  ZMKKeymapDiff,
+  ZMKKeymapLayerRename,
+  ZMKKeymapBindingChange,
+} from "./useZMKKeymapTransfer";
+export type { ZMKKeymapDevicetreeOptions } from "./keymapDevicetree";
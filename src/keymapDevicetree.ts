@@ -0,0 +1,424 @@
+/**
+ * Keymap devicetree generator
+ * Converts a keymap fetched over RPC into ZMK `.keymap` source
+ */
+
+import type { GetBehaviorDetailsResponse } from "@zmkfirmware/zmk-studio-ts-client/behaviors";
+import type {
+  Keymap,
+  Layer,
+  BehaviorBinding,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import type { ZMKPhysicalLayout } from "./usePhysicalLayouts";
+import {
+  HID_USAGE_PAGE_CONSUMER,
+  acceptsHidUsage,
+  decodeHidUsage,
+  isKeyboardPage,
+  refersToLayer,
+} from "./behaviorMetadata";
+import type { BehaviorParameter } from "./behaviorMetadata";
+
+export interface ZMKKeymapDevicetreeOptions {
+  /**
+   * Devicetree labels by behavior display name (case-insensitive), for
+   * behaviors defined in the user's config, e.g. { "Home Row Mod": "hm" }
+   */
+  labels?: Record<string, string>;
+  /** Layout whose key rows decide where binding lines break */
+  layout?: ZMKPhysicalLayout;
+  /** Bindings per line when no layout is given (default: 12) */
+  keysPerRow?: number;
+  /** Emit the #include lines for behaviors and key codes (default: true) */
+  includes?: boolean;
+}
+
+/**
+ * Error thrown when a keymap cannot be written as devicetree source
+ */
+export class ZMKKeymapDevicetreeError extends Error {
+  /** Index of the layer with the binding that cannot be written */
+  public layerIndex: number;
+  /** Position of that binding in the layer */
+  public keyPosition: number;
+
+  constructor(message: string, layerIndex: number, keyPosition: number) {
+    super(message);
+    this.name = "ZMKKeymapDevicetreeError";
+    this.layerIndex = layerIndex;
+    this.keyPosition = keyPosition;
+  }
+}
+
+/**
+ * How a binding parameter is written
+ * - keycode: HID usage as a keys.h name with modifier functions, e.g. LS(A)
+ * - layer: layer ID as the layer's index in the keymap
+ * - bt / out: command names from bt.h / outputs.h
+ * - number: plain number
+ */
+type ParamFormat = "keycode" | "layer" | "bt" | "out" | "number";
+
+interface BehaviorSyntax {
+  label: string;
+  params: ParamFormat[];
+}
+
+const DEFAULT_KEYS_PER_ROW = 12;
+const INDENT = "    ";
+
+const INCLUDES = [
+  "#include <behaviors.dtsi>",
+  "#include <dt-bindings/zmk/keys.h>",
+  "#include <dt-bindings/zmk/bt.h>",
+  "#include <dt-bindings/zmk/outputs.h>",
+];
+
+/**
+ * Behaviors shipped with ZMK, by display name (lowercase)
+ */
+const BUILTIN_BEHAVIORS: Record<string, BehaviorSyntax> = {
+  "key press": { label: "kp", params: ["keycode"] },
+  "momentary layer": { label: "mo", params: ["layer"] },
+  "layer-tap": { label: "lt", params: ["layer", "keycode"] },
+  "mod-tap": { label: "mt", params: ["keycode", "keycode"] },
+  bluetooth: { label: "bt", params: ["bt"] },
+  "output selection": { label: "out", params: ["out"] },
+  "toggle layer": { label: "tog", params: ["layer"] },
+  "to layer": { label: "to", params: ["layer"] },
+  "sticky layer": { label: "sl", params: ["layer"] },
+  "sticky key": { label: "sk", params: ["keycode"] },
+  "key toggle": { label: "kt", params: ["keycode"] },
+  transparent: { label: "trans", params: [] },
+  none: { label: "none", params: [] },
+  "caps word": { label: "caps_word", params: [] },
+  "key repeat": { label: "key_repeat", params: [] },
+  "grave/escape": { label: "gresc", params: [] },
+  reset: { label: "sys_reset", params: [] },
+  bootloader: { label: "bootloader", params: [] },
+  "studio unlock": { label: "studio_unlock", params: [] },
+};
+
+const KEYBOARD_USAGES = new Map<number, string>([
+  ...Array.from({ length: 26 }, (_, i): [number, string] => [
+    0x04 + i,
+    String.fromCharCode(65 + i),
+  ]),
+  ...Array.from({ length: 10 }, (_, i): [number, string] => [
+    0x1e + i,
+    `N${(i + 1) % 10}`,
+  ]),
+  ...Array.from({ length: 12 }, (_, i): [number, string] => [
+    0x3a + i,
+    `F${i + 1}`,
+  ]),
+  ...Array.from({ length: 12 }, (_, i): [number, string] => [
+    0x68 + i,
+    `F${i + 13}`,
+  ]),
+  ...Array.from({ length: 10 }, (_, i): [number, string] => [
+    0x59 + i,
+    `KP_N${(i + 1) % 10}`,
+  ]),
+  [0x28, "RET"],
+  [0x29, "ESC"],
+  [0x2a, "BSPC"],
+  [0x2b, "TAB"],
+  [0x2c, "SPACE"],
+  [0x2d, "MINUS"],
+  [0x2e, "EQUAL"],
+  [0x2f, "LBKT"],
+  [0x30, "RBKT"],
+  [0x31, "BSLH"],
+  [0x32, "NON_US_HASH"],
+  [0x33, "SEMI"],
+  [0x34, "SQT"],
+  [0x35, "GRAVE"],
+  [0x36, "COMMA"],
+  [0x37, "DOT"],
+  [0x38, "FSLH"],
+  [0x39, "CAPS"],
+  [0x46, "PSCRN"],
+  [0x47, "SLCK"],
+  [0x48, "PAUSE_BREAK"],
+  [0x49, "INS"],
+  [0x4a, "HOME"],
+  [0x4b, "PG_UP"],
+  [0x4c, "DEL"],
+  [0x4d, "END"],
+  [0x4e, "PG_DN"],
+  [0x4f, "RIGHT"],
+  [0x50, "LEFT"],
+  [0x51, "DOWN"],
+  [0x52, "UP"],
+  [0x53, "KP_NUM"],
+  [0x54, "KP_SLASH"],
+  [0x55, "KP_MULTIPLY"],
+  [0x56, "KP_MINUS"],
+  [0x57, "KP_PLUS"],
+  [0x58, "KP_ENTER"],
+  [0x63, "KP_DOT"],
+  [0x64, "NON_US_BSLH"],
+  [0x65, "K_APP"],
+  [0xe0, "LCTRL"],
+  [0xe1, "LSHFT"],
+  [0xe2, "LALT"],
+  [0xe3, "LGUI"],
+  [0xe4, "RCTRL"],
+  [0xe5, "RSHFT"],
+  [0xe6, "RALT"],
+  [0xe7, "RGUI"],
+]);
+
+const CONSUMER_USAGES = new Map<number, string>([
+  [0x6f, "C_BRI_UP"],
+  [0x70, "C_BRI_DN"],
+  [0xb5, "C_NEXT"],
+  [0xb6, "C_PREV"],
+  [0xb7, "C_STOP"],
+  [0xcd, "C_PP"],
+  [0xe2, "C_MUTE"],
+  [0xe9, "C_VOL_UP"],
+  [0xea, "C_VOL_DN"],
+]);
+
+// Implicit modifier functions, by bit of the usage's top byte
+const MODIFIER_FUNCTIONS = ["LC", "LS", "LA", "LG", "RC", "RS", "RA", "RG"];
+
+const BT_COMMANDS = [
+  "BT_CLR",
+  "BT_NXT",
+  "BT_PRV",
+  "BT_SEL",
+  "BT_CLR_ALL",
+  "BT_DISC",
+];
+// Commands that take a profile index as second parameter
+const BT_PROFILE_COMMANDS = new Set(["BT_SEL", "BT_DISC"]);
+
+const OUT_COMMANDS = ["OUT_TOG", "OUT_USB", "OUT_BLE"];
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * Format an encoded HID usage as a keys.h name
+ * Usages without a name are written as hex numbers.
+ *
+ * @example
+ * formatKeycode(0x02070004); // "LS(A)"
+ */
+function formatKeycode(value: number): string {
+  const { modifiers, page, id } = decodeHidUsage(value);
+  const name = isKeyboardPage(page)
+    ? KEYBOARD_USAGES.get(id)
+    : page === HID_USAGE_PAGE_CONSUMER
+      ? CONSUMER_USAGES.get(id)
+      : undefined;
+  if (!name) return toHex(value);
+
+  return MODIFIER_FUNCTIONS.reduce(
+    (key, fn, bit) => (modifiers & (1 << bit) ? `${fn}(${key})` : key),
+    name
+  );
+}
+
+/**
+ * Devicetree label for a behavior without a known label
+ *
+ * @example
+ * fallbackLabel("Home Row Mod"); // "home_row_mod"
+ */
+function fallbackLabel(displayName: string): string {
+  return displayName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Syntax of a behavior: built-in, labelled in options, or derived from metadata
+ */
+function behaviorSyntax(
+  behavior: GetBehaviorDetailsResponse,
+  binding: BehaviorBinding,
+  labels: Map<string, string>
+): BehaviorSyntax {
+  const name = behavior.displayName.toLowerCase();
+  const builtin = BUILTIN_BEHAVIORS[name];
+  if (builtin) {
+    return { label: labels.get(name) ?? builtin.label, params: builtin.params };
+  }
+
+  const paramFormat = (param: BehaviorParameter): ParamFormat | null => {
+    if (behavior.metadata.every((set) => set[param].length === 0)) return null;
+    if (acceptsHidUsage(behavior, param)) return "keycode";
+    if (refersToLayer(behavior, param)) return "layer";
+    return "number";
+  };
+  let params: ParamFormat[];
+  if (behavior.metadata.length > 0) {
+    const [param1, param2] = [paramFormat("param1"), paramFormat("param2")];
+    params = param2 ? [param1 ?? "number", param2] : param1 ? [param1] : [];
+  } else {
+    // No metadata: write the parameters that are set
+    params = binding.param2
+      ? ["number", "number"]
+      : binding.param1
+        ? ["number"]
+        : [];
+  }
+  return {
+    label: labels.get(name) ?? fallbackLabel(behavior.displayName),
+    params,
+  };
+}
+
+/**
+ * Format one binding, e.g. "&lt 1 SPACE"
+ */
+function formatBinding(
+  binding: BehaviorBinding,
+  behavior: GetBehaviorDetailsResponse,
+  layerIds: number[],
+  labels: Map<string, string>
+): string {
+  const { label, params } = behaviorSyntax(behavior, binding, labels);
+  const values = [binding.param1, binding.param2];
+
+  const parts = params.flatMap((format, i) => {
+    const value = values[i];
+    switch (format) {
+      case "keycode":
+        return [formatKeycode(value)];
+      case "layer": {
+        const index = layerIds.indexOf(value);
+        return [String(index === -1 ? value : index)];
+      }
+      case "bt": {
+        const command = BT_COMMANDS[value];
+        if (!command) return [String(value)];
+        return BT_PROFILE_COMMANDS.has(command)
+          ? [command, String(binding.param2)]
+          : [command];
+      }
+      case "out":
+        return [OUT_COMMANDS[value] ?? String(value)];
+      default:
+        return [String(value)];
+    }
+  });
+  return [`&${label}`, ...parts].join(" ");
+}
+
+/**
+ * Split formatted bindings into lines, following the layout's rows if given
+ */
+function splitRows(
+  bindings: string[],
+  layout: ZMKPhysicalLayout | undefined,
+  keysPerRow: number
+): string[][] {
+  const rows: string[][] = [];
+  let rowY: number | null = null;
+  bindings.forEach((binding, keyPosition) => {
+    const key = layout?.keys[keyPosition];
+    const newRow = key
+      ? rowY === null || Math.abs(key.y - rowY) >= 0.5
+      : keyPosition % keysPerRow === 0;
+    if (newRow || rows.length === 0) {
+      rows.push([]);
+      rowY = key?.y ?? null;
+    }
+    rows[rows.length - 1].push(binding);
+  });
+  return rows;
+}
+
+/**
+ * Devicetree node name of a layer, e.g. "lower_layer"
+ */
+function layerNodeName(layer: Layer, index: number, used: Set<string>) {
+  const base = fallbackLabel(layer.name);
+  let name = /^[a-z]/.test(base) ? base : `layer_${base || index}`;
+  if (!name.endsWith("layer") && base) name += "_layer";
+  if (used.has(name)) name += `_${index}`;
+  used.add(name);
+  return name;
+}
+
+/**
+ * Generate ZMK `.keymap` devicetree source for a keymap
+ *
+ * Behaviors are written with their devicetree labels and key codes with
+ * their keys.h names. Layer parameters refer to layers by index, as in a
+ * `.keymap` file.
+ *
+ * @param keymap - Keymap from keymap.getKeymap
+ * @param behaviors - Details of every behavior on the device
+ * @param options - Labels for config-defined behaviors and line breaking
+ * @returns Source of a `.keymap` file
+ * @throws ZMKKeymapDevicetreeError if a binding uses a behavior missing from `behaviors`
+ *
+ * @example
+ * const source = generateKeymapDevicetree(keymap, behaviors, { layout: activeLayout });
+ * // ... lower_layer { display-name = "Lower"; bindings = < &kp A &mo 1 ... >; };
+ */
+export function generateKeymapDevicetree(
+  keymap: Keymap,
+  behaviors: GetBehaviorDetailsResponse[],
+  options: ZMKKeymapDevicetreeOptions = {}
+): string {
+  const {
+    layout,
+    keysPerRow = DEFAULT_KEYS_PER_ROW,
+    includes = true,
+  } = options;
+  const labels = new Map(
+    Object.entries(options.labels ?? {}).map(([name, label]) => [
+      name.toLowerCase(),
+      label.replace(/^&/, ""),
+    ])
+  );
+  const byId = new Map(behaviors.map((b) => [b.id, b]));
+  const layerIds = keymap.layers.map((layer) => layer.id);
+  const used = new Set<string>();
+
+  const layerNodes = keymap.layers.map((layer, index) => {
+    const bindings = layer.bindings.map((binding, keyPosition) => {
+      const behavior = byId.get(binding.behaviorId);
+      if (!behavior) {
+        throw new ZMKKeymapDevicetreeError(
+          `Layer ${index} key ${keyPosition} uses unknown behavior ${binding.behaviorId}`,
+          index,
+          keyPosition
+        );
+      }
+      return formatBinding(binding, behavior, layerIds, labels);
+    });
+
+    const indent = INDENT.repeat(3);
+    const lines = [`${INDENT.repeat(2)}${layerNodeName(layer, index, used)} {`];
+    if (layer.name) {
+      const name = layer.name.replace(/["\\]/g, "\\$&");
+      lines.push(`${indent}display-name = "${name}";`);
+    }
+    lines.push(`${indent}bindings = <`);
+    for (const row of splitRows(bindings, layout, keysPerRow)) {
+      lines.push(`${indent}${INDENT}${row.join(" ")}`);
+    }
+    lines.push(`${indent}>;`, `${INDENT.repeat(2)}};`);
+    return lines.join("\n");
+  });
+
+  const source = [
+    "/ {",
+    `${INDENT}keymap {`,
+    `${INDENT.repeat(2)}compatible = "zmk,keymap";`,
+    ...layerNodes.map((node) => `\n${node}`),
+    `${INDENT}};`,
+    "};",
+  ].join("\n");
+  return includes ? `${INCLUDES.join("\n")}\n\n${source}\n` : `${source}\n`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Keymap RPC helpers
+ * Framework-agnostic keymap requests and errors, shared by ZMKClient and the hooks
+ */
+
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type {
+  Request as KeymapRequest,
+  Response as KeymapResponse,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { callZMKRPC, ZMKLockedError } from "./rpc";
+
+/**
+ * Keymap RPC operations that can fail with a ZMKKeymapError
+ */
+export type ZMKKeymapOperation =
+  | "getKeymap"
+  | "setLayerBinding"
+  | "addLayer"
+  | "removeLayer"
+  | "restoreLayer"
+  | "moveLayer"
+  | "setLayerProps"
+  | "saveChanges"
+  | "discardChanges"
+  | "getPhysicalLayouts"
+  | "setActivePhysicalLayout";
+
+/**
+ * Error thrown when a keymap RPC fails or is rejected by the device
+ */
+export class ZMKKeymapError extends Error {
+  public operation: ZMKKeymapOperation;
+  public code?: number;
+
+  constructor(operation: ZMKKeymapOperation, message: string, code?: number) {
+    super(message);
+    this.name = "ZMKKeymapError";
+    this.operation = operation;
+    this.code = code;
+  }
+}
+
+/**
+ * Send a keymap request and return the keymap part of the response
+ */
+export async function callKeymapRPC(
+  connection: RpcConnection,
+  request: KeymapRequest
+): Promise<KeymapResponse> {
+  const response = await callZMKRPC(connection, { keymap: request });
+  if (!response.keymap) {
+    throw new Error("Missing keymap response");
+  }
+  return response.keymap;
+}
+
+/**
+ * Run a keymap RPC, converting any thrown error into a ZMKKeymapError
+ * ZMKLockedError is passed through so callers can prompt for unlocking
+ */
+export async function runKeymapRPC<T>(
+  operation: ZMKKeymapOperation,
+  rpc: () => Promise<T>
+): Promise<T> {
+  try {
+    return await rpc();
+  } catch (error) {
+    if (error instanceof ZMKKeymapError || error instanceof ZMKLockedError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ZMKKeymapError(operation, `${operation} failed: ${message}`);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * RPC helpers
+ * Shared wrappers around call_rpc used by the hooks in this library
+ */
+
+import type {
+  RpcConnection,
+  Request,
+  RequestResponse,
+} from "@zmkfirmware/zmk-studio-ts-client";
+import { call_rpc } from "@zmkfirmware/zmk-studio-ts-client";
+import { withTimeout } from "./utils";
+import type { WithTimeoutOptions } from "./utils";
+
+// ErrorConditions from @zmkfirmware/zmk-studio-ts-client/meta
+export const UNLOCK_REQUIRED = 1;
+export const RPC_NOT_FOUND = 2;
+
+// LockState.ZMK_STUDIO_CORE_LOCK_STATE_LOCKED from @zmkfirmware/zmk-studio-ts-client/core
+export const LOCK_STATE_LOCKED = 0;
+
+/**
+ * Abort signal of each connection opened by useZMKApp
+ * Aborted by useZMKApp.disconnect(), so calls made by ZMKCustomSubsystem can
+ * be cancelled along with the connection.
+ */
+const connectionSignals = new WeakMap<RpcConnection, AbortSignal>();
+
+/**
+ * Associate a connection with the signal that aborts it
+ * @param connection - RPC connection created with the signal
+ * @param signal - Signal aborted when the connection is closed
+ */
+export function registerConnectionSignal(
+  connection: RpcConnection,
+  signal: AbortSignal
+): void {
+  connectionSignals.set(connection, signal);
+}
+
+/**
+ * Get the signal that aborts a connection
+ * @param connection - RPC connection
+ * @returns The signal registered by useZMKApp, or undefined for other connections
+ */
+export function getConnectionSignal(
+  connection: RpcConnection
+): AbortSignal | undefined {
+  return connectionSignals.get(connection);
+}
+
+/**
+ * Error thrown when the device refuses an RPC because it is locked
+ *
+ * The user has to press the Studio unlock key combination on the keyboard
+ * before the request can succeed.
+ */
+export class ZMKLockedError extends Error {
+  constructor(message: string = "Device is locked") {
+    super(message);
+    this.name = "ZMKLockedError";
+  }
+}
+
+/**
+ * Check whether an error thrown by call_rpc is the "unlock required" meta error
+ * @param error - Error thrown by call_rpc
+ * @returns true if the device rejected the request because it is locked
+ */
+export function isUnlockRequiredError(error: unknown): boolean {
+  if (error instanceof ZMKLockedError) return true;
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "condition" in error &&
+    error.condition === UNLOCK_REQUIRED
+  );
+}
+
+/**
+ * Send an RPC request with a timeout
+ * @param connection - Active RPC connection to the device
+ * @param request - Request to send (without requestId)
+ * @param timeout - Timeout in milliseconds, or withTimeout options
+ *   (default: the "default" timeout, 5000ms unless configured)
+ * @returns The response from the device
+ * @throws ZMKLockedError if the device is locked
+ * @throws ZMKTimeoutError if the device does not answer in time
+ * @throws Error if the RPC call fails
+ */
+export async function callZMKRPC(
+  connection: RpcConnection,
+  request: Omit<Request, "requestId">,
+  timeout?: number | WithTimeoutOptions
+): Promise<RequestResponse> {
+  try {
+    return await withTimeout(call_rpc(connection, request), timeout);
+  } catch (error) {
+    if (isUnlockRequiredError(error)) {
+      throw new ZMKLockedError();
+    }
+    throw error;
+  }
+}
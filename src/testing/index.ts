@@ -8,7 +8,10 @@
 import React from "react";
 import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
 import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
-import type { GetDeviceInfoResponse } from "@zmkfirmware/zmk-studio-ts-client/core";
+import type {
+  GetDeviceInfoResponse,
+  LockState,
+} from "@zmkfirmware/zmk-studio-ts-client/core";
 import type { ListCustomSubsystemResponse } from "@zmkfirmware/zmk-studio-ts-client/custom";
 import type { UseZMKAppReturn, ZMKAppState } from "../useZMKApp";
 import { ZMKAppContext } from "../ZMKAppContext";
@@ -113,6 +116,9 @@ export function createMockZMKAppState(
     connection: null,
     deviceInfo: null,
     customSubsystems: null,
+    hasUnsavedChanges: false,
+    lockState: null,
+    status: { type: "disconnected" },
     isLoading: false,
     error: null,
     ...overrides,
@@ -137,6 +143,10 @@ export function createMockZMKApp(
     findSubsystem: jest.fn(),
     isConnected: state.connection !== null,
     onNotification: jest.fn().mockReturnValue(() => {}),
+    hasUnsavedChanges: state.hasUnsavedChanges,
+    saveChanges: jest.fn().mockResolvedValue(undefined),
+    discardChanges: jest.fn().mockResolvedValue(undefined),
+    logger: console,
     ...restOverrides,
   };
 }
@@ -148,13 +158,15 @@ export function createMockZMKApp(
  */
 export function createConnectedMockZMKApp(options: {
   deviceName?: string;
-  subsystems?: string[];
+  subsystems?: Parameters<typeof createMockSubsystems>[0];
   notifications?: unknown[];
+  lockState?: LockState;
 } = {}): UseZMKAppReturn {
   const {
     deviceName = "Test Device",
     subsystems = [],
     notifications = [],
+    lockState = 1, // ZMK_STUDIO_CORE_LOCK_STATE_UNLOCKED
   } = options;
 
   const connection = createMockConnection({ notifications });
@@ -166,6 +178,9 @@ export function createConnectedMockZMKApp(options: {
       connection,
       deviceInfo,
       customSubsystems,
+      hasUnsavedChanges: false,
+      lockState,
+      status: { type: "connected" },
       isLoading: false,
       error: null,
     },
@@ -256,12 +271,18 @@ export function setupZMKMocks() {
     deviceInfo?: Partial<GetDeviceInfoResponse>;
     subsystems?: string[];
     notifications?: unknown[];
+    hasUnsavedChanges?: boolean;
+    lockState?: LockState;
+    fetchSubsystems?: boolean;
   } = {}) {
     const {
       deviceName = "Test Device",
       deviceInfo = {},
       subsystems = [],
       notifications = [],
+      hasUnsavedChanges = false,
+      lockState = 1, // ZMK_STUDIO_CORE_LOCK_STATE_UNLOCKED
+      fetchSubsystems = true,
     } = options;
 
     const connection = createMockConnection({ notifications });
@@ -272,13 +293,24 @@ export function setupZMKMocks() {
     const subsystemsResponse = createMockSubsystems(subsystems);
 
     zmkClient.create_rpc_connection.mockReturnValue(connection);
-    zmkClient.call_rpc
-      .mockResolvedValueOnce({
-        core: { getDeviceInfo: deviceInfoResponse },
-      })
-      .mockResolvedValueOnce({
+    zmkClient.call_rpc.mockResolvedValueOnce({
+      core: { getDeviceInfo: deviceInfoResponse },
+    });
+    // Skipped by useZMKApp({ fetchSubsystems: false })
+    if (fetchSubsystems) {
+      zmkClient.call_rpc.mockResolvedValueOnce({
         custom: { listCustomSubsystems: subsystemsResponse },
       });
+    }
+    zmkClient.call_rpc.mockResolvedValueOnce({
+      core: { getLockState: lockState },
+    });
+    // Unsaved changes are only checked on unlocked devices
+    if (lockState !== 0) {
+      zmkClient.call_rpc.mockResolvedValueOnce({
+        keymap: { checkUnsavedChanges: hasUnsavedChanges },
+      });
+    }
 
     return { connection, deviceInfo: deviceInfoResponse, subsystems: subsystemsResponse };
   }
@@ -0,0 +1,239 @@
+/**
+ * useConnectionResource Hook
+ * Device data fetched once per connection and shared by every hook using it
+ */
+
+import {
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import { ZMKAppContext } from "./ZMKAppContext";
+import { LOCK_STATE_LOCKED } from "./rpc";
+import type { ZMKLogger } from "./ZMKClient";
+import type { UseZMKAppReturn } from "./useZMKApp";
+
+export interface ConnectionResourceState<T> {
+  /** Fetched value, or null when not loaded */
+  value: T | null;
+  /** Whether the value is currently being fetched */
+  isLoading: boolean;
+  /** Error from the last fetch, if any */
+  error: Error | null;
+}
+
+const EMPTY_STATE: ConnectionResourceState<never> = {
+  value: null,
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * Value fetched from one connection, with its loading and error state
+ *
+ * Every hook instance using the same connection and name shares one
+ * resource, so an edit made through one instance shows in all of them.
+ */
+export class ConnectionResource<T> {
+  private state: ConnectionResourceState<T> = EMPTY_STATE;
+  private listeners = new Set<() => void>();
+  // Only the latest fetch updates the state
+  private fetchId = 0;
+  private users = 0;
+  private stopEffect: (() => void) | null = null;
+
+  /**
+   * Create a new resource
+   * @param connection - Connection to fetch from
+   * @param fetcher - Fetches the value
+   * @param errorMessage - Logged with the error when a fetch fails
+   */
+  constructor(
+    readonly connection: RpcConnection,
+    private fetcher: (connection: RpcConnection) => Promise<T>,
+    private errorMessage: string
+  ) {}
+
+  getState(): ConnectionResourceState<T> {
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch the value, keeping the previous one until the fetch succeeds
+   * Failures are logged and kept in `state.error`, not thrown.
+   */
+  async refresh(logger: ZMKLogger): Promise<void> {
+    const id = ++this.fetchId;
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const value = await this.fetcher(this.connection);
+      if (id !== this.fetchId) return;
+      this.setState(() => ({ value, isLoading: false, error: null }));
+    } catch (err) {
+      if (id !== this.fetchId) return;
+      logger.error(this.errorMessage, err);
+      this.setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: err as Error,
+      }));
+    }
+  }
+
+  /**
+   * Fetch the value unless it is loaded or being fetched
+   */
+  load(logger: ZMKLogger): void {
+    if (this.state.value !== null || this.state.isLoading) return;
+    this.refresh(logger);
+  }
+
+  /**
+   * Change the value without fetching, e.g. for optimistic edits
+   */
+  update(update: (prev: T | null) => T | null): void {
+    this.setState((prev) => ({ ...prev, value: update(prev.value) }));
+  }
+
+  /**
+   * Keep a side effect running while any hook uses the resource
+   * @param start - Starts the effect and returns its cleanup; only called
+   *   for the first user
+   * @returns Function that releases this user
+   */
+  retain(start: () => () => void): () => void {
+    if (this.users++ === 0) {
+      this.stopEffect = start();
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (--this.users === 0) {
+        this.stopEffect?.();
+        this.stopEffect = null;
+      }
+    };
+  }
+
+  private setState(
+    update: (prev: ConnectionResourceState<T>) => ConnectionResourceState<T>
+  ): void {
+    this.state = update(this.state);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Resources of each connection, by name
+ */
+const resources = new WeakMap<
+  RpcConnection,
+  Map<string, ConnectionResource<unknown>>
+>();
+
+/**
+ * Get the shared resource of a connection, creating it on first use
+ * @param connection - Connection the value is fetched from
+ * @param name - Name of the resource, unique per kind of value
+ * @param fetcher - Fetches the value; only used when creating the resource
+ * @param errorMessage - Logged with the error when a fetch fails
+ */
+export function getConnectionResource<T>(
+  connection: RpcConnection,
+  name: string,
+  fetcher: (connection: RpcConnection) => Promise<T>,
+  errorMessage: string
+): ConnectionResource<T> {
+  let byName = resources.get(connection);
+  if (!byName) {
+    byName = new Map();
+    resources.set(connection, byName);
+  }
+  let resource = byName.get(name) as ConnectionResource<T> | undefined;
+  if (!resource) {
+    resource = new ConnectionResource(connection, fetcher, errorMessage);
+    byName.set(name, resource as ConnectionResource<unknown>);
+  }
+  return resource;
+}
+
+export interface UseConnectionResourceReturn<
+  T,
+> extends ConnectionResourceState<T> {
+  /** App from ZMKAppContext, or null outside a provider */
+  zmkApp: UseZMKAppReturn | null;
+  /** Resource of the current connection, or null when not connected */
+  resource: ConnectionResource<T> | null;
+  /** Re-fetch the value from the device */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for a resource of the device connected through ZMKAppContext
+ *
+ * The value is fetched when a connection becomes available or the device
+ * gets unlocked, unless another hook instance already loaded it.
+ *
+ * @param name - Name of the resource, unique per kind of value
+ * @param fetcher - Fetches the value; only used when creating the resource
+ * @param errorMessage - Logged with the error when a fetch fails
+ */
+export function useConnectionResource<T>(
+  name: string,
+  fetcher: (connection: RpcConnection) => Promise<T>,
+  errorMessage: string
+): UseConnectionResourceReturn<T> {
+  const zmkApp = useContext(ZMKAppContext);
+  const connection = zmkApp?.state.connection ?? null;
+  const lockState = zmkApp?.state.lockState ?? null;
+
+  const resource = connection
+    ? getConnectionResource(connection, name, fetcher, errorMessage)
+    : null;
+
+  const subscribe = useCallback(
+    (listener: () => void) => resource?.subscribe(listener) ?? (() => {}),
+    [resource]
+  );
+  const state = useSyncExternalStore(
+    subscribe,
+    () => (resource?.getState() ?? EMPTY_STATE) as ConnectionResourceState<T>
+  );
+
+  // Latest logger, read by async callbacks
+  const loggerRef = useRef<ZMKLogger>(zmkApp?.logger ?? console);
+  useEffect(() => {
+    loggerRef.current = zmkApp?.logger ?? console;
+  });
+
+  const refresh = useCallback(
+    async () => resource?.refresh(loggerRef.current),
+    [resource]
+  );
+
+  /**
+   * Effect: Load the value when a connection becomes available or the
+   * device gets unlocked
+   */
+  useEffect(() => {
+    if (!resource || lockState === LOCK_STATE_LOCKED) return;
+    resource.load(loggerRef.current);
+  }, [resource, lockState]);
+
+  return { ...state, zmkApp, resource, refresh };
+}
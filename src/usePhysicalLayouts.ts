@@ -0,0 +1,235 @@
+/**
+ * usePhysicalLayouts Hook
+ * Hook for the physical layouts of the connected ZMK device
+ */
+
+import { useCallback, useMemo } from "react";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type {
+  Keymap,
+  PhysicalLayout,
+  PhysicalLayouts,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { useConnectionResource } from "./useConnectionResource";
+import { callKeymapRPC, runKeymapRPC, ZMKKeymapError } from "./keymapRpc";
+import { getKeymapResource } from "./useZMKKeymap";
+
+/**
+ * Geometry of a single key, in key units (1 = one standard key width)
+ */
+export interface ZMKKeyGeometry {
+  /** Left edge before rotation */
+  x: number;
+  /** Top edge before rotation */
+  y: number;
+  /** Width */
+  w: number;
+  /** Height */
+  h: number;
+  /** Clockwise rotation in degrees */
+  rotation: number;
+  /** X coordinate of the rotation origin */
+  rx: number;
+  /** Y coordinate of the rotation origin */
+  ry: number;
+}
+
+/**
+ * Physical layout with geometry converted to key units
+ */
+export interface ZMKPhysicalLayout {
+  /** Layout name as reported by the firmware */
+  name: string;
+  /** Geometry of each key, indexed by key position */
+  keys: ZMKKeyGeometry[];
+  /** Width of the bounding box of all (rotated) keys */
+  width: number;
+  /** Height of the bounding box of all (rotated) keys */
+  height: number;
+}
+
+export interface UsePhysicalLayoutsReturn {
+  /** Layouts as reported by the firmware, or null when not loaded */
+  physicalLayouts: PhysicalLayouts | null;
+  /** Layouts with geometry converted to key units */
+  layouts: ZMKPhysicalLayout[];
+  /** Index of the active layout, or null when not loaded */
+  activeIndex: number | null;
+  /** The active layout, or null when not loaded */
+  activeLayout: ZMKPhysicalLayout | null;
+  /** Whether the layouts are currently being fetched */
+  isLoading: boolean;
+  /**
+   * Error from the last fetch, if any: a ZMKKeymapError, or ZMKLockedError
+   * when the device got locked
+   */
+  error: Error | null;
+  /** Re-fetch the layouts from the device */
+  refresh: () => Promise<void>;
+  /**
+   * Activate the layout at the given index
+   * Resolves with the remapped keymap, which every useZMKKeymap also shows
+   */
+  selectLayout: (index: number) => Promise<Keymap>;
+}
+
+// Firmware reports positions and sizes in hundredths of a key unit
+const CENTI = 100;
+
+/**
+ * Convert a firmware physical layout into key-unit geometry
+ * @param layout - Physical layout from keymap.getPhysicalLayouts
+ * @returns The layout with positions, sizes and rotations converted
+ *
+ * @example
+ * normalizePhysicalLayout({ name: "default", keys: [
+ *   { x: 0, y: 0, width: 100, height: 100, r: 0, rx: 0, ry: 0 },
+ * ] }); // keys[0] is { x: 0, y: 0, w: 1, h: 1, rotation: 0, rx: 0, ry: 0 }
+ */
+export function normalizePhysicalLayout(
+  layout: PhysicalLayout
+): ZMKPhysicalLayout {
+  const keys = layout.keys.map((key) => ({
+    x: key.x / CENTI,
+    y: key.y / CENTI,
+    w: key.width / CENTI,
+    h: key.height / CENTI,
+    // Rotation is reported in hundredths of a degree
+    rotation: key.r / CENTI,
+    rx: key.rx / CENTI,
+    ry: key.ry / CENTI,
+  }));
+
+  let width = 0;
+  let height = 0;
+  for (const key of keys) {
+    for (const [px, py] of keyCorners(key)) {
+      width = Math.max(width, px);
+      height = Math.max(height, py);
+    }
+  }
+
+  return { name: layout.name, keys, width, height };
+}
+
+/**
+ * Corners of a key after applying its rotation around (rx, ry)
+ */
+function keyCorners(key: ZMKKeyGeometry): Array<[number, number]> {
+  const corners: Array<[number, number]> = [
+    [key.x, key.y],
+    [key.x + key.w, key.y],
+    [key.x, key.y + key.h],
+    [key.x + key.w, key.y + key.h],
+  ];
+  if (!key.rotation) return corners;
+
+  const rad = (key.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return corners.map(([px, py]) => {
+    const dx = px - key.rx;
+    const dy = py - key.ry;
+    return [key.rx + dx * cos - dy * sin, key.ry + dx * sin + dy * cos];
+  });
+}
+
+/**
+ * Fetch the physical layouts from the device
+ */
+async function fetchPhysicalLayouts(
+  connection: RpcConnection
+): Promise<PhysicalLayouts> {
+  const response = await runKeymapRPC("getPhysicalLayouts", () =>
+    callKeymapRPC(connection, { getPhysicalLayouts: true })
+  );
+  if (!response.getPhysicalLayouts) {
+    throw new ZMKKeymapError(
+      "getPhysicalLayouts",
+      "Failed to get physical layouts"
+    );
+  }
+  return response.getPhysicalLayouts;
+}
+
+/**
+ * Hook for the physical layouts of the device connected through ZMKAppContext
+ *
+ * Layouts are fetched when a connection becomes available. Selecting a layout
+ * makes the firmware remap bindings, so the returned keymap replaces the one
+ * shown by useZMKKeymap.
+ *
+ * @example
+ * const { layouts, activeIndex, selectLayout } = usePhysicalLayouts();
+ */
+export function usePhysicalLayouts(): UsePhysicalLayoutsReturn {
+  const {
+    resource,
+    value: physicalLayouts,
+    isLoading,
+    error,
+    refresh,
+  } = useConnectionResource(
+    "physicalLayouts",
+    fetchPhysicalLayouts,
+    "Failed to get physical layouts"
+  );
+
+  /**
+   * Activate a layout, then update local state and the shared keymap with
+   * the keymap the firmware produced for it
+   * @throws ZMKKeymapError if the device rejects the layout index
+   */
+  const selectLayout = useCallback(
+    async (index: number) => {
+      if (!resource) {
+        throw new ZMKKeymapError(
+          "setActivePhysicalLayout",
+          "Not connected to a device"
+        );
+      }
+
+      const updated = await runKeymapRPC(
+        "setActivePhysicalLayout",
+        async () => {
+          const response = await callKeymapRPC(resource.connection, {
+            setActivePhysicalLayout: index,
+          });
+          const result = response.setActivePhysicalLayout;
+          if (!result?.ok) {
+            throw new ZMKKeymapError(
+              "setActivePhysicalLayout",
+              "Device rejected the physical layout",
+              result?.err
+            );
+          }
+          return result.ok;
+        }
+      );
+
+      resource.update((prev) =>
+        prev ? { ...prev, activeLayoutIndex: index } : prev
+      );
+      getKeymapResource(resource.connection).update(() => updated);
+      return updated;
+    },
+    [resource]
+  );
+
+  const layouts = useMemo(
+    () => physicalLayouts?.layouts.map(normalizePhysicalLayout) ?? [],
+    [physicalLayouts]
+  );
+  const activeIndex = physicalLayouts?.activeLayoutIndex ?? null;
+
+  return {
+    physicalLayouts,
+    layouts,
+    activeIndex,
+    activeLayout: activeIndex !== null ? (layouts[activeIndex] ?? null) : null,
+    isLoading,
+    error,
+    refresh,
+    selectLayout,
+  };
+}
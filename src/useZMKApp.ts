@@ -3,45 +3,40 @@
  * Generic hook for managing ZMK device connection and subsystem discovery
  */
 
-import { useState, useCallback, useEffect, useRef } from "react";
 import {
-  create_rpc_connection,
-  call_rpc,
-} from "@zmkfirmware/zmk-studio-ts-client";
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
 import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
-import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
-import type { GetDeviceInfoResponse } from "@zmkfirmware/zmk-studio-ts-client/core";
-import type { Notification as CoreNotification } from "@zmkfirmware/zmk-studio-ts-client/core";
-import type { Notification as KeymapNotification } from "@zmkfirmware/zmk-studio-ts-client/keymap";
-import type {
-  ListCustomSubsystemResponse,
-  CustomNotification,
-} from "@zmkfirmware/zmk-studio-ts-client/custom";
-import { withTimeout } from "./utils";
-
-/**
- * Notification subscription types
- */
-export type NotificationSubscription =
-  | { type: "core"; callback: (notification: CoreNotification) => void }
-  | { type: "keymap"; callback: (notification: KeymapNotification) => void }
-  | {
-      type: "custom";
-      subsystemIndex: number;
-      callback: (notification: CustomNotification) => void;
-    };
-
-export interface ZMKAppState {
-  /** RPC connection to the device */
-  connection: RpcConnection | null;
-  /** Device information */
-  deviceInfo: GetDeviceInfoResponse | null;
-  /** Available custom subsystems */
-  customSubsystems: ListCustomSubsystemResponse | null;
-  /** Whether the app is currently loading */
-  isLoading: boolean;
-  /** Any error that occurred */
-  error: string | null;
+import type { CustomSubsystem } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import { ZMKClient, findCustomSubsystem } from "./ZMKClient";
+import type { ZMKAppState, ZMKClientOptions, ZMKLogger } from "./ZMKClient";
+import type { NotificationSubscription } from "./ZMKNotificationHub";
+
+export { ZMKConnectionError } from "./ZMKClient";
+export type {
+  ZMKAppState,
+  ZMKConnectionStatus,
+  ZMKConnectionErrorKind,
+  ZMKReconnectOptions,
+  ZMKConnectionTimeouts,
+  ZMKLogger,
+} from "./ZMKClient";
+export type {
+  NotificationSubscription,
+  ZMKNotificationReplay,
+} from "./ZMKNotificationHub";
+
+export interface UseZMKAppOptions extends ZMKClientOptions {
+  /**
+   * Connect function to call once on mount, e.g. one that reopens a
+   * previously granted serial port without showing the picker
+   */
+  autoConnect?: () => Promise<RpcTransport>;
 }
 
 export interface UseZMKAppReturn {
@@ -51,254 +46,112 @@ export interface UseZMKAppReturn {
   connect: (connectFunction: () => Promise<RpcTransport>) => Promise<void>;
   /** Disconnect from the device */
   disconnect: () => void;
-  /** Find a specific subsystem by identifier */
-  findSubsystem: (
-    identifier: string
-  ) => { index: number; identifier: string } | null;
+  /** Find a specific subsystem by identifier, including its UI URLs */
+  findSubsystem: (identifier: string) => CustomSubsystem | null;
   /** Whether we're currently connected */
   isConnected: boolean;
   /** Subscribe to notifications */
   onNotification: (subscription: NotificationSubscription) => () => void;
+  /** Whether the device has keymap changes that are not saved yet */
+  hasUnsavedChanges: boolean;
+  /** Persist pending keymap changes on the device */
+  saveChanges: () => Promise<void>;
+  /** Revert pending keymap changes on the device */
+  discardChanges: () => Promise<void>;
+  /**
+   * Logger from the options, used by the other hooks for their errors
+   * (they use console without one)
+   */
+  logger?: ZMKLogger;
 }
 
 /**
  * Hook for managing ZMK application state
  * Handles connection lifecycle, device discovery, and subsystem enumeration
+ * with a ZMKClient owned by the component.
+ *
+ * @param options - Optional behavior such as automatic reconnection
+ *
+ * @example
+ * const zmkApp = useZMKApp({ reconnect: { maxAttempts: 5, backoffMs: 1000 } });
  */
-export function useZMKApp(): UseZMKAppReturn {
-  const [state, setState] = useState<ZMKAppState>({
-    connection: null,
-    deviceInfo: null,
-    customSubsystems: null,
-    isLoading: false,
-    error: null,
-  });
-
-  const abortControllerRef = useRef<AbortController | null>(null);
+export function useZMKApp(options: UseZMKAppOptions = {}): UseZMKAppReturn {
+  const [client] = useState(() => new ZMKClient(options));
 
-  // Consolidated callbacks for official notification types
-  const notificationCallbacksRef = useRef<{
-    core: Set<(notification: CoreNotification) => void>;
-    keymap: Set<(notification: KeymapNotification) => void>;
-  }>({
-    core: new Set(),
-    keymap: new Set(),
+  // Latest options, read by the client when used
+  useEffect(() => {
+    client.setOptions(options);
   });
 
-  // Custom notifications need a Map since they're indexed by subsystem
-  const customNotificationCallbacksRef = useRef<
-    Map<number, Set<(notification: CustomNotification) => void>>
-  >(new Map());
+  const subscribe = useCallback(
+    (listener: () => void) => client.subscribe(listener),
+    [client]
+  );
+  const state = useSyncExternalStore(subscribe, () => client.getState());
+
+  /**
+   * Effect: Dispose of the client when the component unmounts
+   * Deferred, so the unmount and remount StrictMode simulates keeps it.
+   */
+  const disposeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    if (disposeTimer.current !== null) {
+      clearTimeout(disposeTimer.current);
+      disposeTimer.current = null;
+    }
+    return () => {
+      disposeTimer.current = setTimeout(() => client.dispose(), 0);
+    };
+  }, [client]);
 
   /**
    * Connect to a ZMK device
    * @param connectFunction - Function that creates and returns the transport connection
    */
   const connect = useCallback(
-    async (connectFunction: () => Promise<RpcTransport>) => {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-      // Create new AbortController for this connection
-      abortControllerRef.current = new AbortController();
-
-      try {
-        // Step 1: Establish transport and RPC connection
-        const transport = await connectFunction();
-        const connection = create_rpc_connection(transport, {
-          signal: abortControllerRef.current.signal,
-        });
-
-        // Step 2: Fetch device information
-        const deviceInfo = await fetchDeviceInfo(connection);
-        if (!deviceInfo) {
-          throw new Error("Failed to get device information");
-        }
-
-        // Step 3: Fetch custom subsystems (optional - won't fail connection)
-        const customSubsystems = await fetchCustomSubsystems(connection);
-
-        // Step 4: Update state with successful connection
-        setState({
-          connection,
-          deviceInfo,
-          customSubsystems,
-          isLoading: false,
-          error: null,
-        });
-      } catch (error) {
-        console.error("Connection failed:", error);
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown connection error";
-
-        setState((prev) => ({
-          ...prev,
-          isLoading: false,
-          error: errorMessage,
-        }));
-      }
-    },
-    []
+    (connectFunction: () => Promise<RpcTransport>) =>
+      client.connect(connectFunction),
+    [client]
   );
 
-  /**
-   * Fetch device information from the connected device
-   */
-  const fetchDeviceInfo = async (
-    connection: RpcConnection
-  ): Promise<GetDeviceInfoResponse | null> => {
-    try {
-      const response = await withTimeout(
-        call_rpc(connection, {
-          core: { getDeviceInfo: true },
-        })
-      );
-      return response.core?.getDeviceInfo || null;
-    } catch (error) {
-      console.error("Failed to get device info", error);
-      return null;
-    }
-  };
+  // autoConnect is only read on mount
+  const [autoConnect] = useState(() => options.autoConnect);
+  // Whether autoConnect already ran for this component's client
+  const autoConnected = useRef(false);
 
   /**
-   * Fetch available custom subsystems from the device
+   * Effect: Connect with options.autoConnect once on mount
+   * StrictMode runs the effect twice; the ref keeps it from opening the
+   * transport a second time.
    */
-  const fetchCustomSubsystems = async (
-    connection: RpcConnection
-  ): Promise<ListCustomSubsystemResponse | null> => {
-    try {
-      const response = await withTimeout(
-        call_rpc(connection, {
-          custom: { listCustomSubsystems: {} },
-        })
-      );
-      return response.custom?.listCustomSubsystems || null;
-    } catch (error) {
-      console.error("Failed to get custom subsystems", error);
-      return null;
+  useEffect(() => {
+    if (autoConnect && !autoConnected.current) {
+      autoConnected.current = true;
+      connect(autoConnect);
     }
-  };
+  }, [connect, autoConnect]);
 
   /**
    * Disconnect from the current device
    * Aborts any ongoing operations and clears all state
    */
-  const disconnect = useCallback(() => {
-    // Abort any ongoing connection and RPC calls
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
-
-    // Clear all notification subscriptions
-    notificationCallbacksRef.current.core.clear();
-    notificationCallbacksRef.current.keymap.clear();
-    customNotificationCallbacksRef.current.clear();
-
-    // Reset state to initial values
-    setState({
-      connection: null,
-      deviceInfo: null,
-      customSubsystems: null,
-      isLoading: false,
-      error: null,
-    });
-  }, []);
+  const disconnect = useCallback(() => client.disconnect(), [client]);
 
   /**
    * Find a subsystem by its identifier string
    * @param identifier - The unique identifier of the subsystem to find
-   * @returns The subsystem with its index and identifier, or null if not found
+   * @returns The subsystem record (index, identifier and uiUrl), or null if not found
    */
   const findSubsystem = useCallback(
-    (identifier: string) => {
-      if (!state.customSubsystems) return null;
-
-      const subsystem = state.customSubsystems.subsystems.find(
-        (s) => s.identifier === identifier
-      );
-
-      return subsystem
-        ? { index: subsystem.index, identifier: subsystem.identifier }
-        : null;
-    },
+    (identifier: string) =>
+      findCustomSubsystem(state.customSubsystems, identifier),
     [state.customSubsystems]
   );
 
-  /**
-   * Effect: Listen for incoming notifications from the device
-   * Automatically starts/stops when connection changes
-   */
-  useEffect(() => {
-    if (!state.connection) return;
-
-    const reader = state.connection.notification_readable.getReader();
-    const abortController = new AbortController();
-
-    /**
-     * Continuously read notifications from the stream and dispatch to subscribers
-     */
-    const processNotifications = async () => {
-      try {
-        while (!abortController.signal.aborted) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // Dispatch notifications based on type
-          if (value.core) {
-            dispatchNotification("core", value.core);
-          } else if (value.keymap) {
-            dispatchNotification("keymap", value.keymap);
-          } else if (value.custom?.customNotification) {
-            dispatchCustomNotification(value.custom.customNotification);
-          }
-        }
-      } catch (error) {
-        // Only log errors if we weren't intentionally aborted
-        if (!abortController.signal.aborted) {
-          console.error("Error reading notifications:", error);
-          disconnect();
-        }
-      } finally {
-        reader.releaseLock();
-      }
-    };
-
-    processNotifications();
-
-    return () => {
-      abortController.abort();
-    };
-  }, [state.connection, disconnect]);
-
-  /**
-   * Dispatch notification to all registered callbacks for a given type
-   */
-  const dispatchNotification = <T extends "core" | "keymap">(
-    type: T,
-    notification: T extends "core" ? CoreNotification : KeymapNotification
-  ) => {
-    notificationCallbacksRef.current[type].forEach((callback) =>
-      callback(
-        notification as T extends "core" ? CoreNotification : KeymapNotification
-      )
-    );
-  };
-
-  /**
-   * Dispatch custom notification to all registered callbacks for a subsystem
-   */
-  const dispatchCustomNotification = (notification: CustomNotification) => {
-    const callbacks = customNotificationCallbacksRef.current.get(
-      notification.subsystemIndex
-    );
-    if (callbacks) {
-      callbacks.forEach((callback) => callback(notification));
-    }
-  };
-
   /**
    * Subscribe to notifications
-   * @param subscription - Notification subscription configuration
+   * @param subscription - Notification subscription configuration; with
+   *   `replay`, buffered notifications are delivered before this returns
    * @returns Unsubscribe function to stop receiving notifications
    *
    * @example Core notifications
@@ -325,56 +178,64 @@ export function useZMKApp(): UseZMKAppReturn {
    *     console.log('Custom payload:', notification.payload);
    *   }
    * });
+   *
+   * @example Replay the last lock state change for a late subscriber
+   * const unsubscribe = onNotification({
+   *   type: 'core',
+   *   replay: 'last',
+   *   callback: (notification) => setLockState(notification.lockStateChanged),
+   * });
+   *
+   * @example Every notification, filtered
+   * const unsubscribe = onNotification({
+   *   type: 'any',
+   *   filter: (notification) => notification.custom !== undefined,
+   *   callback: (notification) => log(notification),
+   * });
    */
   const onNotification = useCallback(
-    (subscription: NotificationSubscription) => {
-      if (subscription.type === "core") {
-        // Subscribe to core notifications
-        notificationCallbacksRef.current.core.add(subscription.callback);
-        return () => {
-          notificationCallbacksRef.current.core.delete(subscription.callback);
-        };
-      } else if (subscription.type === "keymap") {
-        // Subscribe to keymap notifications
-        notificationCallbacksRef.current.keymap.add(subscription.callback);
-        return () => {
-          notificationCallbacksRef.current.keymap.delete(subscription.callback);
-        };
-      } else {
-        // Subscribe to custom notifications for a specific subsystem
-        const { subsystemIndex, callback } = subscription;
-        let callbacks =
-          customNotificationCallbacksRef.current.get(subsystemIndex);
-        if (!callbacks) {
-          callbacks = new Set();
-          customNotificationCallbacksRef.current.set(subsystemIndex, callbacks);
-        }
-        callbacks.add(callback);
-
-        return () => {
-          const callbacks =
-            customNotificationCallbacksRef.current.get(subsystemIndex);
-          if (callbacks) {
-            callbacks.delete(callback);
-            // Clean up empty sets to prevent memory leaks
-            if (callbacks.size === 0) {
-              customNotificationCallbacksRef.current.delete(subsystemIndex);
-            }
-          }
-        };
-      }
-    },
-    []
+    (subscription: NotificationSubscription) =>
+      client.onNotification(subscription),
+    [client]
   );
 
-  const isConnected = !!state.connection;
+  /**
+   * Persist pending keymap changes to the device's storage
+   * @throws ZMKKeymapError with the device's SaveChangesErrorCode as `code`
+   * @throws ZMKLockedError if the device is locked
+   */
+  const saveChanges = useCallback(() => client.saveChanges(), [client]);
 
-  return {
-    state,
-    connect,
-    disconnect,
-    findSubsystem,
-    isConnected,
-    onNotification,
-  };
+  /**
+   * Revert pending keymap changes to the last saved keymap
+   * @throws ZMKKeymapError if the device refuses to discard changes
+   * @throws ZMKLockedError if the device is locked
+   */
+  const discardChanges = useCallback(() => client.discardChanges(), [client]);
+
+  // Memoized so consumers (contexts, ZMKDeviceManager) only update on changes
+  return useMemo(
+    () => ({
+      state,
+      connect,
+      disconnect,
+      findSubsystem,
+      isConnected: !!state.connection,
+      onNotification,
+      hasUnsavedChanges: state.hasUnsavedChanges,
+      saveChanges,
+      discardChanges,
+      logger: client.logger,
+    }),
+    [
+      client,
+      state,
+      connect,
+      disconnect,
+      findSubsystem,
+      onNotification,
+      saveChanges,
+      discardChanges,
+    ]
+  );
 }
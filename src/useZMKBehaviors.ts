@@ -0,0 +1,304 @@
+/**
+ * useZMKBehaviors Hook
+ * Hook for the behaviors available on the connected ZMK device
+ */
+
+import { useCallback, useContext, useMemo } from "react";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type {
+  GetBehaviorDetailsResponse,
+  BehaviorBindingParametersSet,
+  BehaviorParameterValueDescription,
+  Request as BehaviorsRequest,
+  Response as BehaviorsResponse,
+} from "@zmkfirmware/zmk-studio-ts-client/behaviors";
+import type { BehaviorBinding } from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { ZMKAppContext } from "./ZMKAppContext";
+import { callZMKRPC } from "./rpc";
+import { useConnectionResource } from "./useConnectionResource";
+import {
+  HID_USAGE_PAGE_CONSUMER,
+  decodeHidUsage,
+  isKeyboardPage,
+} from "./behaviorMetadata";
+
+export interface UseZMKBehaviorsReturn {
+  /** Details of every behavior on the device, ordered by ID */
+  behaviors: GetBehaviorDetailsResponse[];
+  /** Whether the behaviors are currently being fetched */
+  isLoading: boolean;
+  /** Error from the last fetch, if any */
+  error: Error | null;
+  /** Re-fetch the behaviors from the device, bypassing the cache */
+  refresh: () => Promise<void>;
+  /** Find a behavior by its ID */
+  getBehavior: (behaviorId: number) => GetBehaviorDetailsResponse | null;
+  /** Find a behavior by its display name (case-insensitive) */
+  getBehaviorByDisplayName: (
+    displayName: string
+  ) => GetBehaviorDetailsResponse | null;
+  /**
+   * Check a binding against the parameter metadata of its behavior
+   * @returns null if the binding is valid, otherwise the reason it is not
+   */
+  validateBinding: (
+    binding: BehaviorBinding,
+    options?: ZMKBindingValidationOptions
+  ) => string | null;
+}
+
+export interface ZMKBindingValidationOptions {
+  /** IDs of existing layers; layer parameters are only range-checked if omitted */
+  layerIds?: number[];
+}
+
+/**
+ * Behavior details per device, keyed by hex serial number
+ * Behaviors only change with a firmware update, so they are shared across
+ * hooks and reconnects for the lifetime of the page.
+ */
+const behaviorCache = new Map<string, Promise<GetBehaviorDetailsResponse[]>>();
+
+/**
+ * Drop cached behavior details
+ * @param serialNumber - Serial number of the device to drop; all devices if omitted
+ */
+export function clearZMKBehaviorCache(serialNumber?: Uint8Array): void {
+  if (serialNumber) {
+    behaviorCache.delete(toHex(serialNumber));
+  } else {
+    behaviorCache.clear();
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Send a behaviors request and return the behaviors part of the response
+ */
+async function callBehaviorsRPC(
+  connection: RpcConnection,
+  request: BehaviorsRequest
+): Promise<BehaviorsResponse> {
+  const response = await callZMKRPC(connection, { behaviors: request });
+  if (!response.behaviors) {
+    throw new Error("Missing behaviors response");
+  }
+  return response.behaviors;
+}
+
+/**
+ * Fetch the IDs and details of every behavior on the device
+ * One request at a time: call_rpc sends them one by one anyway, and queued
+ * requests would spend their timeout waiting for the others.
+ */
+async function fetchBehaviors(
+  connection: RpcConnection
+): Promise<GetBehaviorDetailsResponse[]> {
+  const list = await callBehaviorsRPC(connection, { listAllBehaviors: true });
+  if (!list.listAllBehaviors) {
+    throw new Error("Failed to list behaviors");
+  }
+  const ids = [...list.listAllBehaviors.behaviors].sort((a, b) => a - b);
+
+  const behaviors: GetBehaviorDetailsResponse[] = [];
+  for (const behaviorId of ids) {
+    const response = await callBehaviorsRPC(connection, {
+      getBehaviorDetails: { behaviorId },
+    });
+    if (!response.getBehaviorDetails) {
+      throw new Error(`Failed to get details of behavior ${behaviorId}`);
+    }
+    behaviors.push(response.getBehaviorDetails);
+  }
+  return behaviors;
+}
+
+/**
+ * Get the behaviors of a device from the cache, fetching them if needed
+ * @param cacheKey - Hex serial number of the device; not cached if null
+ */
+function loadBehaviors(
+  connection: RpcConnection,
+  cacheKey: string | null
+): Promise<GetBehaviorDetailsResponse[]> {
+  let pending = cacheKey ? behaviorCache.get(cacheKey) : undefined;
+  if (!pending) {
+    pending = fetchBehaviors(connection);
+    if (cacheKey) {
+      const fetched = pending;
+      behaviorCache.set(cacheKey, fetched);
+      // Failed fetches are not cached
+      fetched.catch(() => {
+        if (behaviorCache.get(cacheKey) === fetched) {
+          behaviorCache.delete(cacheKey);
+        }
+      });
+    }
+  }
+  return pending;
+}
+
+/**
+ * Check whether a parameter value matches a value description
+ */
+function matchesDescription(
+  value: number,
+  description: BehaviorParameterValueDescription,
+  options: ZMKBindingValidationOptions
+): boolean {
+  if (description.nil) {
+    return value === 0;
+  }
+  if (description.constant !== undefined) {
+    return value === description.constant;
+  }
+  if (description.range) {
+    return value >= description.range.min && value <= description.range.max;
+  }
+  if (description.hidUsage) {
+    const { page, id } = decodeHidUsage(value);
+    if (isKeyboardPage(page)) {
+      return id <= description.hidUsage.keyboardMax;
+    }
+    if (page === HID_USAGE_PAGE_CONSUMER) {
+      return id <= description.hidUsage.consumerMax;
+    }
+    return false;
+  }
+  if (description.layerId) {
+    return options.layerIds
+      ? options.layerIds.includes(value)
+      : Number.isInteger(value) && value >= 0;
+  }
+  return false;
+}
+
+/**
+ * Check a parameter value against the descriptions of one parameter
+ * An empty description list means the parameter is unused and must be 0
+ */
+function matchesParameter(
+  value: number,
+  descriptions: BehaviorParameterValueDescription[],
+  options: ZMKBindingValidationOptions
+): boolean {
+  if (descriptions.length === 0) return value === 0;
+  return descriptions.some((d) => matchesDescription(value, d, options));
+}
+
+/**
+ * Check a binding against the parameter metadata of a behavior
+ * @param behavior - Details of the behavior the binding refers to
+ * @param binding - Binding to check
+ * @param options - Extra context, such as the IDs of existing layers
+ * @returns null if the binding is valid, otherwise the reason it is not
+ *
+ * @example
+ * const reason = validateBehaviorBinding(keyPress, { behaviorId, param1: 0x70004, param2: 0 });
+ */
+export function validateBehaviorBinding(
+  behavior: GetBehaviorDetailsResponse,
+  binding: BehaviorBinding,
+  options: ZMKBindingValidationOptions = {}
+): string | null {
+  if (binding.behaviorId !== behavior.id) {
+    return `Binding is for behavior ${binding.behaviorId}, not ${behavior.id}`;
+  }
+  // Behaviors without metadata accept any parameters
+  if (behavior.metadata.length === 0) return null;
+
+  const matchesSet = (set: BehaviorBindingParametersSet) =>
+    matchesParameter(binding.param1, set.param1, options) &&
+    matchesParameter(binding.param2, set.param2, options);
+  if (behavior.metadata.some(matchesSet)) return null;
+
+  if (
+    !behavior.metadata.some((set) =>
+      matchesParameter(binding.param1, set.param1, options)
+    )
+  ) {
+    return `Invalid param1 ${binding.param1} for ${behavior.displayName}`;
+  }
+  return `Invalid param2 ${binding.param2} for ${behavior.displayName}`;
+}
+
+/**
+ * Hook for the behaviors of the device connected through ZMKAppContext
+ *
+ * Behaviors are fetched the first time the hook is used with a connection:
+ * one listAllBehaviors request followed by getBehaviorDetails for each ID,
+ * sent one after another. Results are cached per device
+ * serial number, so other hooks and later reconnects reuse them.
+ *
+ * @example
+ * const { behaviors, getBehaviorByDisplayName, validateBinding } = useZMKBehaviors();
+ * const keyPress = getBehaviorByDisplayName("Key Press");
+ */
+export function useZMKBehaviors(): UseZMKBehaviorsReturn {
+  const zmkApp = useContext(ZMKAppContext);
+  const serialNumber = zmkApp?.state.deviceInfo?.serialNumber;
+  const cacheKey =
+    serialNumber && serialNumber.length > 0 ? toHex(serialNumber) : null;
+
+  const fetcher = useCallback(
+    (connection: RpcConnection) => loadBehaviors(connection, cacheKey),
+    [cacheKey]
+  );
+  const {
+    value,
+    isLoading,
+    error,
+    refresh: reload,
+  } = useConnectionResource("behaviors", fetcher, "Failed to get behaviors");
+  const behaviors = useMemo(() => value ?? [], [value]);
+
+  /**
+   * Fetch the behaviors again, replacing the cached ones
+   */
+  const refresh = useCallback(async () => {
+    if (cacheKey) behaviorCache.delete(cacheKey);
+    await reload();
+  }, [cacheKey, reload]);
+
+  const byId = useMemo(
+    () => new Map(behaviors.map((b) => [b.id, b])),
+    [behaviors]
+  );
+
+  const getBehavior = useCallback(
+    (behaviorId: number) => byId.get(behaviorId) ?? null,
+    [byId]
+  );
+
+  const getBehaviorByDisplayName = useCallback(
+    (displayName: string) => {
+      const name = displayName.toLowerCase();
+      return (
+        behaviors.find((b) => b.displayName.toLowerCase() === name) ?? null
+      );
+    },
+    [behaviors]
+  );
+
+  const validateBinding = useCallback(
+    (binding: BehaviorBinding, options?: ZMKBindingValidationOptions) => {
+      const behavior = byId.get(binding.behaviorId);
+      if (!behavior) return `Unknown behavior ${binding.behaviorId}`;
+      return validateBehaviorBinding(behavior, binding, options);
+    },
+    [byId]
+  );
+
+  return {
+    behaviors,
+    isLoading,
+    error,
+    refresh,
+    getBehavior,
+    getBehaviorByDisplayName,
+    validateBinding,
+  };
+}
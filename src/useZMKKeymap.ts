@@ -0,0 +1,420 @@
+/**
+ * useZMKKeymap Hook
+ * Hook for reading and editing the keymap of the connected ZMK device
+ */
+
+import { useCallback, useEffect } from "react";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type {
+  Keymap,
+  Layer,
+  BehaviorBinding,
+  AddLayerResponseDetails,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import {
+  getConnectionResource,
+  useConnectionResource,
+} from "./useConnectionResource";
+import type { ConnectionResource } from "./useConnectionResource";
+import { callKeymapRPC, runKeymapRPC, ZMKKeymapError } from "./keymapRpc";
+import type { ZMKKeymapOperation } from "./keymapRpc";
+
+export { callKeymapRPC, runKeymapRPC, ZMKKeymapError } from "./keymapRpc";
+export type { ZMKKeymapOperation } from "./keymapRpc";
+
+export interface UseZMKKeymapReturn {
+  /** Current keymap, or null when not loaded */
+  keymap: Keymap | null;
+  /** Layers of the current keymap (empty when not loaded) */
+  layers: Layer[];
+  /** Whether the keymap is currently being fetched */
+  isLoading: boolean;
+  /**
+   * Error from the last fetch, if any: a ZMKKeymapError, or ZMKLockedError
+   * when the device got locked
+   */
+  error: Error | null;
+  /** Re-fetch the keymap from the device */
+  refresh: () => Promise<void>;
+  /** Replace the binding at a key position of a layer */
+  setLayerBinding: (
+    layerId: number,
+    keyPosition: number,
+    binding: BehaviorBinding
+  ) => Promise<void>;
+  /** Add a new layer at the end of the keymap */
+  addLayer: () => Promise<AddLayerResponseDetails>;
+  /** Remove the layer at the given index */
+  removeLayer: (layerIndex: number) => Promise<void>;
+  /** Restore a previously removed layer at the given index */
+  restoreLayer: (layerId: number, atIndex: number) => Promise<Layer>;
+  /** Move a layer from one index to another */
+  moveLayer: (startIndex: number, destIndex: number) => Promise<void>;
+  /** Update the properties (name) of a layer */
+  setLayerProps: (layerId: number, props: { name: string }) => Promise<void>;
+  /** Replace the shared keymap with one returned by the device */
+  replaceKeymap: (keymap: Keymap) => void;
+}
+
+const KEYMAP_RESOURCE = "keymap";
+const KEYMAP_ERROR_MESSAGE = "Failed to get keymap";
+
+/**
+ * Fetch the keymap from the device
+ */
+async function fetchKeymap(connection: RpcConnection): Promise<Keymap> {
+  const response = await runKeymapRPC("getKeymap", () =>
+    callKeymapRPC(connection, { getKeymap: true })
+  );
+  if (!response.getKeymap) {
+    throw new ZMKKeymapError("getKeymap", "Failed to get keymap");
+  }
+  return response.getKeymap;
+}
+
+/**
+ * Get the keymap shared by every keymap hook of a connection
+ * Lets other hooks apply keymaps the device returns, like the remapped
+ * keymap after switching physical layouts.
+ */
+export function getKeymapResource(
+  connection: RpcConnection
+): ConnectionResource<Keymap> {
+  return getConnectionResource(
+    connection,
+    KEYMAP_RESOURCE,
+    fetchKeymap,
+    KEYMAP_ERROR_MESSAGE
+  );
+}
+
+function requireConnection(
+  resource: ConnectionResource<Keymap> | null,
+  operation: ZMKKeymapOperation
+): [RpcConnection, ConnectionResource<Keymap>] {
+  if (!resource) {
+    throw new ZMKKeymapError(operation, "Not connected to a device");
+  }
+  return [resource.connection, resource];
+}
+
+function updateLayer(
+  keymap: Keymap | null,
+  layerId: number,
+  update: (layer: Layer) => Layer
+): Keymap | null {
+  if (!keymap) return keymap;
+  return {
+    ...keymap,
+    layers: keymap.layers.map((layer) =>
+      layer.id === layerId ? update(layer) : layer
+    ),
+  };
+}
+
+function moveLayerIndex(
+  keymap: Keymap | null,
+  startIndex: number,
+  destIndex: number
+): Keymap | null {
+  if (!keymap) return keymap;
+  const layers = [...keymap.layers];
+  const [layer] = layers.splice(startIndex, 1);
+  if (!layer) return keymap;
+  layers.splice(destIndex, 0, layer);
+  return { ...keymap, layers };
+}
+
+/**
+ * Hook for the keymap of the device connected through ZMKAppContext
+ *
+ * The keymap is fetched when a connection becomes available and re-fetched
+ * whenever a keymap notification arrives. All hooks of a connection share
+ * one keymap, so an edit made through one shows in all of them. Mutators
+ * update it optimistically and roll back if the device rejects the change.
+ *
+ * @example
+ * const { layers, setLayerBinding } = useZMKKeymap();
+ * await setLayerBinding(layers[0].id, 0, { behaviorId: 1, param1: 4, param2: 0 });
+ */
+export function useZMKKeymap(): UseZMKKeymapReturn {
+  const {
+    zmkApp,
+    resource,
+    value: keymap,
+    isLoading,
+    error,
+    refresh,
+  } = useConnectionResource(KEYMAP_RESOURCE, fetchKeymap, KEYMAP_ERROR_MESSAGE);
+  const onNotification = zmkApp?.onNotification;
+
+  /**
+   * Effect: Re-fetch the keymap when the device reports keymap changes
+   * Only one hook per connection subscribes, so each notification causes a
+   * single fetch.
+   */
+  useEffect(() => {
+    if (!resource || !onNotification) return;
+    return resource.retain(() =>
+      onNotification({
+        type: "keymap",
+        callback: () => {
+          refresh();
+        },
+      })
+    );
+  }, [resource, onNotification, refresh]);
+
+  /**
+   * Replace a binding, rolling back to the previous binding on failure
+   */
+  const setLayerBinding = useCallback(
+    async (layerId: number, keyPosition: number, binding: BehaviorBinding) => {
+      const [conn, keymapResource] = requireConnection(
+        resource,
+        "setLayerBinding"
+      );
+      const previous = keymapResource
+        .getState()
+        .value?.layers.find((l) => l.id === layerId)?.bindings[keyPosition];
+
+      const applyBinding = (value: BehaviorBinding) =>
+        keymapResource.update((prev) =>
+          updateLayer(prev, layerId, (layer) => ({
+            ...layer,
+            bindings: layer.bindings.map((b, i) =>
+              i === keyPosition ? value : b
+            ),
+          }))
+        );
+
+      applyBinding(binding);
+      try {
+        await runKeymapRPC("setLayerBinding", async () => {
+          const response = await callKeymapRPC(conn, {
+            setLayerBinding: { layerId, keyPosition, binding },
+          });
+          // SET_LAYER_BINDING_RESP_OK is 0, anything else is a rejection
+          if (response.setLayerBinding !== 0) {
+            throw new ZMKKeymapError(
+              "setLayerBinding",
+              "Device rejected the binding",
+              response.setLayerBinding
+            );
+          }
+        });
+      } catch (err) {
+        if (previous) applyBinding(previous);
+        throw err;
+      }
+    },
+    [resource]
+  );
+
+  /**
+   * Add a layer; applied once the device returns the new layer
+   */
+  const addLayer = useCallback(async () => {
+    const [conn, keymapResource] = requireConnection(resource, "addLayer");
+    const details = await runKeymapRPC("addLayer", async () => {
+      const response = await callKeymapRPC(conn, { addLayer: {} });
+      const result = response.addLayer;
+      if (!result?.ok) {
+        throw new ZMKKeymapError(
+          "addLayer",
+          "Device rejected adding a layer",
+          result?.err
+        );
+      }
+      return result.ok;
+    });
+
+    keymapResource.update((prev) => {
+      if (!prev || !details.layer) return prev;
+      const layers = [...prev.layers];
+      layers.splice(details.index, 0, details.layer);
+      return { ...prev, layers };
+    });
+    return details;
+  }, [resource]);
+
+  /**
+   * Remove a layer, re-inserting it locally on failure
+   */
+  const removeLayer = useCallback(
+    async (layerIndex: number) => {
+      const [conn, keymapResource] = requireConnection(resource, "removeLayer");
+      const removed = keymapResource.getState().value?.layers[layerIndex];
+
+      keymapResource.update((prev) =>
+        prev
+          ? { ...prev, layers: prev.layers.filter((_, i) => i !== layerIndex) }
+          : prev
+      );
+      try {
+        await runKeymapRPC("removeLayer", async () => {
+          const response = await callKeymapRPC(conn, {
+            removeLayer: { layerIndex },
+          });
+          if (!response.removeLayer?.ok) {
+            throw new ZMKKeymapError(
+              "removeLayer",
+              "Device rejected removing the layer",
+              response.removeLayer?.err
+            );
+          }
+        });
+      } catch (err) {
+        if (removed) {
+          keymapResource.update((prev) => {
+            if (!prev) return prev;
+            const layers = [...prev.layers];
+            layers.splice(layerIndex, 0, removed);
+            return { ...prev, layers };
+          });
+        }
+        throw err;
+      }
+    },
+    [resource]
+  );
+
+  /**
+   * Restore a removed layer; applied once the device returns the layer
+   */
+  const restoreLayer = useCallback(
+    async (layerId: number, atIndex: number) => {
+      const [conn, keymapResource] = requireConnection(
+        resource,
+        "restoreLayer"
+      );
+      const layer = await runKeymapRPC("restoreLayer", async () => {
+        const response = await callKeymapRPC(conn, {
+          restoreLayer: { layerId, atIndex },
+        });
+        const result = response.restoreLayer;
+        if (!result?.ok) {
+          throw new ZMKKeymapError(
+            "restoreLayer",
+            "Device rejected restoring the layer",
+            result?.err
+          );
+        }
+        return result.ok;
+      });
+
+      keymapResource.update((prev) => {
+        if (!prev) return prev;
+        const layers = [...prev.layers];
+        layers.splice(atIndex, 0, layer);
+        return { ...prev, layers };
+      });
+      return layer;
+    },
+    [resource]
+  );
+
+  /**
+   * Move a layer, moving it back locally on failure
+   */
+  const moveLayer = useCallback(
+    async (startIndex: number, destIndex: number) => {
+      const [conn, keymapResource] = requireConnection(resource, "moveLayer");
+
+      keymapResource.update((prev) =>
+        moveLayerIndex(prev, startIndex, destIndex)
+      );
+      try {
+        const updated = await runKeymapRPC("moveLayer", async () => {
+          const response = await callKeymapRPC(conn, {
+            moveLayer: { startIndex, destIndex },
+          });
+          if (!response.moveLayer?.ok) {
+            throw new ZMKKeymapError(
+              "moveLayer",
+              "Device rejected moving the layer",
+              response.moveLayer?.err
+            );
+          }
+          return response.moveLayer.ok;
+        });
+        // The device answers with the resulting keymap, which is authoritative
+        keymapResource.update(() => updated);
+      } catch (err) {
+        keymapResource.update((prev) =>
+          moveLayerIndex(prev, destIndex, startIndex)
+        );
+        throw err;
+      }
+    },
+    [resource]
+  );
+
+  /**
+   * Rename a layer, restoring the previous name on failure
+   */
+  const setLayerProps = useCallback(
+    async (layerId: number, props: { name: string }) => {
+      const [conn, keymapResource] = requireConnection(
+        resource,
+        "setLayerProps"
+      );
+      const previousName = keymapResource
+        .getState()
+        .value?.layers.find((l) => l.id === layerId)?.name;
+
+      keymapResource.update((prev) =>
+        updateLayer(prev, layerId, (layer) => ({ ...layer, name: props.name }))
+      );
+      try {
+        await runKeymapRPC("setLayerProps", async () => {
+          const response = await callKeymapRPC(conn, {
+            setLayerProps: { layerId, name: props.name },
+          });
+          // SET_LAYER_PROPS_RESP_OK is 0, anything else is a rejection
+          if (response.setLayerProps !== 0) {
+            throw new ZMKKeymapError(
+              "setLayerProps",
+              "Device rejected the layer properties",
+              response.setLayerProps
+            );
+          }
+        });
+      } catch (err) {
+        if (previousName !== undefined) {
+          keymapResource.update((prev) =>
+            updateLayer(prev, layerId, (layer) => ({
+              ...layer,
+              name: previousName,
+            }))
+          );
+        }
+        throw err;
+      }
+    },
+    [resource]
+  );
+
+  /**
+   * Replace local state with a keymap the device returned from another RPC
+   */
+  const replaceKeymap = useCallback(
+    (keymap: Keymap) => resource?.update(() => keymap),
+    [resource]
+  );
+
+  return {
+    keymap,
+    layers: keymap?.layers ?? [],
+    isLoading,
+    error,
+    refresh,
+    setLayerBinding,
+    addLayer,
+    removeLayer,
+    restoreLayer,
+    moveLayer,
+    setLayerProps,
+    replaceKeymap,
+  };
+}
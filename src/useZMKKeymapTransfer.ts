@@ -0,0 +1,523 @@
+/**
+ * useZMKKeymapTransfer Hook
+ * Hook for exporting and importing keymaps as portable JSON documents
+ */
+
+import { useCallback, useContext } from "react";
+import type { GetBehaviorDetailsResponse } from "@zmkfirmware/zmk-studio-ts-client/behaviors";
+import type {
+  Keymap,
+  BehaviorBinding,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { ZMKAppContext } from "./ZMKAppContext";
+import { ZMKKeymapError } from "./keymapRpc";
+import { refersToLayer } from "./behaviorMetadata";
+import type { UseZMKKeymapReturn } from "./useZMKKeymap";
+import type { UseZMKBehaviorsReturn } from "./useZMKBehaviors";
+import type { UsePhysicalLayoutsReturn } from "./usePhysicalLayouts";
+
+export const ZMK_KEYMAP_DOCUMENT_FORMAT = "zmk-studio-keymap";
+export const ZMK_KEYMAP_DOCUMENT_VERSION = 1;
+
+/**
+ * Binding in a keymap document
+ * Parameters of layer behaviors (e.g. momentary layer) hold layer indexes
+ * rather than firmware layer IDs.
+ */
+export interface ZMKKeymapDocumentBinding {
+  /** Behavior display name, e.g. "Key Press" */
+  behavior: string;
+  param1: number;
+  param2: number;
+}
+
+export interface ZMKKeymapDocumentLayer {
+  name: string;
+  /** Bindings indexed by key position */
+  bindings: ZMKKeymapDocumentBinding[];
+}
+
+/**
+ * Versioned JSON representation of a keymap, independent of the firmware
+ * build it was exported from
+ */
+export interface ZMKKeymapDocument {
+  format: typeof ZMK_KEYMAP_DOCUMENT_FORMAT;
+  version: typeof ZMK_KEYMAP_DOCUMENT_VERSION;
+  /** Name of the device the keymap was exported from */
+  device: string | null;
+  /** Name of the physical layout that was active during export */
+  physicalLayout: string | null;
+  layers: ZMKKeymapDocumentLayer[];
+}
+
+/**
+ * Device details recorded in or checked against a keymap document
+ */
+export interface ZMKKeymapDocumentContext {
+  /** Device name */
+  device?: string | null;
+  /** Name of the active physical layout */
+  physicalLayout?: string | null;
+}
+
+/**
+ * Binding that differs between the device and a document
+ */
+export interface ZMKKeymapBindingChange {
+  layerIndex: number;
+  keyPosition: number;
+  /** Binding on the device, or null on a layer that will be added */
+  from: ZMKKeymapDocumentBinding | null;
+  to: ZMKKeymapDocumentBinding;
+}
+
+/**
+ * Layer name that differs between the device and a document
+ */
+export interface ZMKKeymapLayerRename {
+  layerIndex: number;
+  /** Name on the device, or null on a layer that will be added */
+  from: string | null;
+  to: string;
+}
+
+/**
+ * Changes needed to turn the device keymap into a document's keymap
+ */
+export interface ZMKKeymapDiff {
+  /** Number of layers appended to the keymap */
+  addedLayers: number;
+  /** Number of layers removed from the end of the keymap */
+  removedLayers: number;
+  renamedLayers: ZMKKeymapLayerRename[];
+  bindings: ZMKKeymapBindingChange[];
+}
+
+/**
+ * Error thrown when a keymap document is malformed or does not fit the device
+ */
+export class ZMKKeymapDocumentError extends Error {
+  /** Every problem found, one sentence each */
+  public problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = "ZMKKeymapDocumentError";
+    this.problems = problems;
+  }
+}
+
+export interface UseZMKKeymapTransferOptions {
+  /** Keymap hook whose keymap is exported and whose mutators apply imports */
+  keymap: UseZMKKeymapReturn;
+  /** Behavior hook used to translate between behavior IDs and names */
+  behaviors: UseZMKBehaviorsReturn;
+  /** Physical layout hook; its active layout is recorded and checked */
+  physicalLayouts?: UsePhysicalLayoutsReturn;
+}
+
+export interface UseZMKKeymapTransferReturn {
+  /** Export the loaded keymap as a document */
+  exportKeymap: () => ZMKKeymapDocument;
+  /** Changes importKeymap would make, without applying them */
+  diffKeymap: (document: ZMKKeymapDocument) => ZMKKeymapDiff;
+  /** Apply a document to the device; resolves with the applied changes */
+  importKeymap: (document: ZMKKeymapDocument) => Promise<ZMKKeymapDiff>;
+}
+
+function throwProblems(problems: string[]): void {
+  if (problems.length === 0) return;
+  const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : "";
+  throw new ZMKKeymapDocumentError(
+    `Invalid keymap document: ${problems[0]}${more}`,
+    problems
+  );
+}
+
+/**
+ * Which parameters of a behavior refer to layers
+ */
+function layerParameters(behavior: GetBehaviorDetailsResponse) {
+  return {
+    param1: refersToLayer(behavior, "param1"),
+    param2: refersToLayer(behavior, "param2"),
+  };
+}
+
+function findBehaviorByName(
+  behaviors: GetBehaviorDetailsResponse[],
+  displayName: string
+): GetBehaviorDetailsResponse | undefined {
+  const name = displayName.toLowerCase();
+  return behaviors.find((b) => b.displayName.toLowerCase() === name);
+}
+
+function sameBinding(
+  a: ZMKKeymapDocumentBinding,
+  b: ZMKKeymapDocumentBinding
+): boolean {
+  return (
+    a.behavior.toLowerCase() === b.behavior.toLowerCase() &&
+    a.param1 === b.param1 &&
+    a.param2 === b.param2
+  );
+}
+
+/**
+ * Convert a keymap into a portable document
+ * @param keymap - Keymap from keymap.getKeymap
+ * @param behaviors - Details of every behavior on the device
+ * @param context - Device name and active physical layout to record
+ * @returns The document; serialize it with JSON.stringify
+ * @throws ZMKKeymapDocumentError if a binding uses an unknown behavior or layer
+ *
+ * @example
+ * const json = JSON.stringify(exportKeymapDocument(keymap, behaviors), null, 2);
+ */
+export function exportKeymapDocument(
+  keymap: Keymap,
+  behaviors: GetBehaviorDetailsResponse[],
+  context: ZMKKeymapDocumentContext = {}
+): ZMKKeymapDocument {
+  const byId = new Map(behaviors.map((b) => [b.id, b]));
+  const layerIds = keymap.layers.map((layer) => layer.id);
+  const problems: string[] = [];
+
+  const layers = keymap.layers.map((layer, layerIndex) => ({
+    name: layer.name,
+    bindings: layer.bindings.map((binding, keyPosition) => {
+      const behavior = byId.get(binding.behaviorId);
+      if (!behavior) {
+        problems.push(
+          `Layer ${layerIndex} key ${keyPosition} uses unknown behavior ${binding.behaviorId}`
+        );
+        return { behavior: "", param1: 0, param2: 0 };
+      }
+      const isLayer = layerParameters(behavior);
+      const toIndex = (value: number) => {
+        const index = layerIds.indexOf(value);
+        if (index === -1) {
+          problems.push(
+            `Layer ${layerIndex} key ${keyPosition} refers to unknown layer ${value}`
+          );
+        }
+        return index;
+      };
+      return {
+        behavior: behavior.displayName,
+        param1: isLayer.param1 ? toIndex(binding.param1) : binding.param1,
+        param2: isLayer.param2 ? toIndex(binding.param2) : binding.param2,
+      };
+    }),
+  }));
+  throwProblems(problems);
+
+  return {
+    format: ZMK_KEYMAP_DOCUMENT_FORMAT,
+    version: ZMK_KEYMAP_DOCUMENT_VERSION,
+    device: context.device ?? null,
+    physicalLayout: context.physicalLayout ?? null,
+    layers,
+  };
+}
+
+/**
+ * Check that parsed JSON is a keymap document this version can read
+ * @param value - Result of JSON.parse
+ * @returns The value, typed as a document
+ * @throws ZMKKeymapDocumentError listing every structural problem
+ *
+ * @example
+ * const document = parseKeymapDocument(JSON.parse(await file.text()));
+ */
+export function parseKeymapDocument(value: unknown): ZMKKeymapDocument {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null;
+  const isInteger = (v: unknown) => Number.isInteger(v);
+
+  if (!isObject(value) || value.format !== ZMK_KEYMAP_DOCUMENT_FORMAT) {
+    throwProblems(["Not a keymap document"]);
+  }
+  const document = value as Record<string, unknown>;
+  if (document.version !== ZMK_KEYMAP_DOCUMENT_VERSION) {
+    throwProblems([`Unsupported version ${String(document.version)}`]);
+  }
+
+  const problems: string[] = [];
+  for (const key of ["device", "physicalLayout"]) {
+    if (document[key] !== null && typeof document[key] !== "string") {
+      problems.push(`${key} must be a string or null`);
+    }
+  }
+  if (!Array.isArray(document.layers)) {
+    problems.push("layers must be an array");
+  } else {
+    document.layers.forEach((layer: unknown, layerIndex) => {
+      if (!isObject(layer) || typeof layer.name !== "string") {
+        problems.push(`Layer ${layerIndex} must have a name`);
+        return;
+      }
+      if (!Array.isArray(layer.bindings)) {
+        problems.push(`Layer ${layerIndex} must have a bindings array`);
+        return;
+      }
+      layer.bindings.forEach((binding: unknown, keyPosition) => {
+        if (
+          !isObject(binding) ||
+          typeof binding.behavior !== "string" ||
+          !isInteger(binding.param1) ||
+          !isInteger(binding.param2)
+        ) {
+          problems.push(
+            `Layer ${layerIndex} key ${keyPosition} must have a behavior name and integer parameters`
+          );
+        }
+      });
+    });
+  }
+  throwProblems(problems);
+
+  return value as ZMKKeymapDocument;
+}
+
+/**
+ * Compute the changes needed to apply a document to a keymap
+ *
+ * Layers are matched by index. Missing layers are appended and surplus
+ * layers removed from the end.
+ *
+ * @param document - Document to apply
+ * @param keymap - Keymap currently on the device
+ * @param behaviors - Details of every behavior on the device
+ * @param context - Active physical layout, checked against the document's
+ * @returns Layer count changes, renames and binding changes
+ * @throws ZMKKeymapDocumentError if the document does not fit the device
+ */
+export function diffKeymapDocument(
+  document: ZMKKeymapDocument,
+  keymap: Keymap,
+  behaviors: GetBehaviorDetailsResponse[],
+  context: ZMKKeymapDocumentContext = {}
+): ZMKKeymapDiff {
+  const current = exportKeymapDocument(keymap, behaviors).layers;
+  const keyCount = keymap.layers[0]?.bindings.length;
+  const problems: string[] = [];
+
+  if (
+    document.physicalLayout &&
+    context.physicalLayout &&
+    document.physicalLayout !== context.physicalLayout
+  ) {
+    problems.push(
+      `Keymap is for physical layout "${document.physicalLayout}", but "${context.physicalLayout}" is active`
+    );
+  }
+  if (document.layers.length === 0) {
+    problems.push("Keymap must have at least one layer");
+  }
+  const added = document.layers.length - current.length;
+  if (added > keymap.availableLayers) {
+    problems.push(
+      `Keymap has ${document.layers.length} layers, but the device fits ${current.length + keymap.availableLayers}`
+    );
+  }
+  document.layers.forEach((layer, layerIndex) => {
+    if (
+      keymap.maxLayerNameLength &&
+      layer.name.length > keymap.maxLayerNameLength
+    ) {
+      problems.push(
+        `Layer ${layerIndex} name is longer than ${keymap.maxLayerNameLength} characters`
+      );
+    }
+    if (keyCount !== undefined && layer.bindings.length !== keyCount) {
+      problems.push(
+        `Layer ${layerIndex} has ${layer.bindings.length} bindings, but the device has ${keyCount} keys`
+      );
+    }
+    layer.bindings.forEach((binding, keyPosition) => {
+      const behavior = findBehaviorByName(behaviors, binding.behavior);
+      if (!behavior) {
+        problems.push(
+          `Layer ${layerIndex} key ${keyPosition} uses unknown behavior "${binding.behavior}"`
+        );
+        return;
+      }
+      const isLayer = layerParameters(behavior);
+      for (const param of ["param1", "param2"] as const) {
+        const value = binding[param];
+        if (isLayer[param] && (value < 0 || value >= document.layers.length)) {
+          problems.push(
+            `Layer ${layerIndex} key ${keyPosition} refers to missing layer ${value}`
+          );
+        }
+      }
+    });
+  });
+  throwProblems(problems);
+
+  const renamedLayers: ZMKKeymapLayerRename[] = [];
+  const bindings: ZMKKeymapBindingChange[] = [];
+  document.layers.forEach((layer, layerIndex) => {
+    const existing = current[layerIndex] ?? null;
+    if (layer.name !== existing?.name) {
+      renamedLayers.push({
+        layerIndex,
+        from: existing?.name ?? null,
+        to: layer.name,
+      });
+    }
+    layer.bindings.forEach((to, keyPosition) => {
+      const from = existing?.bindings[keyPosition] ?? null;
+      if (from && sameBinding(from, to)) return;
+      bindings.push({ layerIndex, keyPosition, from, to });
+    });
+  });
+
+  return {
+    addedLayers: Math.max(0, added),
+    removedLayers: Math.max(0, -added),
+    renamedLayers,
+    bindings,
+  };
+}
+
+/**
+ * Convert a document binding into a firmware binding
+ * @param layerIds - Firmware layer IDs by layer index
+ */
+function resolveBinding(
+  binding: ZMKKeymapDocumentBinding,
+  behaviors: GetBehaviorDetailsResponse[],
+  layerIds: number[]
+): BehaviorBinding {
+  // Checked by diffKeymapDocument
+  const behavior = findBehaviorByName(behaviors, binding.behavior)!;
+  const isLayer = layerParameters(behavior);
+  return {
+    behaviorId: behavior.id,
+    param1: isLayer.param1 ? layerIds[binding.param1] : binding.param1,
+    param2: isLayer.param2 ? layerIds[binding.param2] : binding.param2,
+  };
+}
+
+/**
+ * Hook for exporting and importing the keymap of the device connected
+ * through ZMKAppContext
+ *
+ * Documents refer to behaviors by display name and to layers by index, so
+ * they can be applied to other firmware builds of the same keyboard.
+ * Imports go through the keymap hook's mutators and are not saved until
+ * saveChanges() is called; discardChanges() reverts a partial import. Any
+ * useZMKKeymap of the connection works, since they share one keymap.
+ *
+ * @example
+ * const keymap = useZMKKeymap();
+ * const behaviors = useZMKBehaviors();
+ * const { exportKeymap, diffKeymap, importKeymap } = useZMKKeymapTransfer({ keymap, behaviors });
+ * const document = parseKeymapDocument(JSON.parse(text));
+ * if (confirm(`${diffKeymap(document).bindings.length} keys change`)) await importKeymap(document);
+ */
+export function useZMKKeymapTransfer(
+  options: UseZMKKeymapTransferOptions
+): UseZMKKeymapTransferReturn {
+  const { keymap, behaviors, physicalLayouts } = options;
+  const {
+    keymap: currentKeymap,
+    addLayer,
+    removeLayer,
+    setLayerProps,
+    setLayerBinding,
+  } = keymap;
+  const behaviorList = behaviors.behaviors;
+  const physicalLayout = physicalLayouts?.activeLayout?.name ?? null;
+
+  const zmkApp = useContext(ZMKAppContext);
+  const device = zmkApp?.state.deviceInfo?.name ?? null;
+
+  /**
+   * Loaded keymap, throwing if keymap or behaviors are missing
+   */
+  const requireLoaded = useCallback(() => {
+    if (!currentKeymap || behaviorList.length === 0) {
+      throw new ZMKKeymapDocumentError(
+        "Keymap and behaviors must be loaded first"
+      );
+    }
+    return currentKeymap;
+  }, [currentKeymap, behaviorList]);
+
+  const exportKeymap = useCallback(
+    () =>
+      exportKeymapDocument(requireLoaded(), behaviorList, {
+        device,
+        physicalLayout,
+      }),
+    [requireLoaded, behaviorList, device, physicalLayout]
+  );
+
+  const diffKeymap = useCallback(
+    (document: ZMKKeymapDocument) =>
+      diffKeymapDocument(document, requireLoaded(), behaviorList, {
+        physicalLayout,
+      }),
+    [requireLoaded, behaviorList, physicalLayout]
+  );
+
+  /**
+   * Apply layer count changes first, so bindings can refer to new layers
+   */
+  const importKeymap = useCallback(
+    async (document: ZMKKeymapDocument) => {
+      const loaded = requireLoaded();
+      const diff = diffKeymapDocument(document, loaded, behaviorList, {
+        physicalLayout,
+      });
+
+      const layerIds = loaded.layers
+        .slice(0, document.layers.length)
+        .map((layer) => layer.id);
+      for (
+        let index = loaded.layers.length - 1;
+        index >= layerIds.length;
+        index--
+      ) {
+        await removeLayer(index);
+      }
+      for (let i = 0; i < diff.addedLayers; i++) {
+        const details = await addLayer();
+        if (!details.layer) {
+          throw new ZMKKeymapError(
+            "addLayer",
+            "Device did not return the new layer"
+          );
+        }
+        layerIds.push(details.layer.id);
+      }
+
+      for (const { layerIndex, to } of diff.renamedLayers) {
+        await setLayerProps(layerIds[layerIndex], { name: to });
+      }
+      for (const { layerIndex, keyPosition, to } of diff.bindings) {
+        await setLayerBinding(
+          layerIds[layerIndex],
+          keyPosition,
+          resolveBinding(to, behaviorList, layerIds)
+        );
+      }
+      return diff;
+    },
+    [
+      requireLoaded,
+      behaviorList,
+      physicalLayout,
+      addLayer,
+      removeLayer,
+      setLayerProps,
+      setLayerBinding,
+    ]
+  );
+
+  return { exportKeymap, diffKeymap, importKeymap };
+}
@@ -0,0 +1,114 @@
+/**
+ * useZMKNotification Hook
+ * Hook for the latest notification of a kind from the connected ZMK device
+ */
+
+import { useContext, useEffect, useRef, useState } from "react";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import type { Notification as CoreNotification } from "@zmkfirmware/zmk-studio-ts-client/core";
+import type { CustomNotification } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import type { Notification as KeymapNotification } from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { ZMKAppContext } from "./ZMKAppContext";
+import type { ZMKNotificationReplay } from "./ZMKNotificationHub";
+
+/**
+ * Notifications to follow with useZMKNotification
+ * Custom notifications are selected by subsystem identifier.
+ */
+export type ZMKNotificationSource =
+  | { type: "core"; replay?: ZMKNotificationReplay }
+  | { type: "keymap"; replay?: ZMKNotificationReplay }
+  | { type: "custom"; identifier: string; replay?: ZMKNotificationReplay };
+
+/**
+ * Notification delivered for a source
+ */
+export type ZMKNotificationOf<S extends ZMKNotificationSource> = S extends {
+  type: "core";
+}
+  ? CoreNotification
+  : S extends { type: "keymap" }
+    ? KeymapNotification
+    : CustomNotification;
+
+/**
+ * Latest value, tagged with the connection it was received on
+ */
+interface ValueState<T> {
+  connection: RpcConnection;
+  value: T;
+}
+
+/**
+ * Hook for the latest notification from the device connected through ZMKAppContext
+ *
+ * Subscribes while a device is connected, again after each reconnect, and
+ * when the subsystem's index changes. The value is reset when the connection
+ * changes.
+ *
+ * @param source - Notification type; custom notifications by subsystem identifier
+ * @param selector - Maps a notification to the returned value; returning
+ *   undefined ignores the notification (default: the notification itself)
+ * @returns Latest selected value on the current connection, or null
+ *
+ * @example
+ * const lockState = useZMKNotification({ type: "core" }, (notification) =>
+ *   notification.lockStateChanged
+ * );
+ * const effect = useZMKNotification({ type: "custom", identifier: "rgb_effects" }, (notification) =>
+ *   decodeEffect(notification.payload)
+ * );
+ */
+export function useZMKNotification<
+  S extends ZMKNotificationSource,
+  T = ZMKNotificationOf<S>,
+>(
+  source: S,
+  selector?: (notification: ZMKNotificationOf<S>) => T | undefined
+): T | null {
+  const zmkApp = useContext(ZMKAppContext);
+  const connection = zmkApp?.state.connection ?? null;
+  const subscribe = zmkApp?.onNotification;
+  const { type, replay } = source;
+  const identifier = source.type === "custom" ? source.identifier : null;
+  const subsystemIndex =
+    identifier !== null
+      ? (zmkApp?.findSubsystem(identifier)?.index ?? null)
+      : null;
+
+  const [valueState, setValueState] = useState<ValueState<T> | null>(null);
+
+  // Latest selector, read by the subscription
+  const selectorRef = useRef(selector);
+  useEffect(() => {
+    selectorRef.current = selector;
+  }, [selector]);
+
+  /**
+   * Effect: Subscribe while connected
+   * disconnect() drops all subscriptions, so subscribe again per connection.
+   */
+  useEffect(() => {
+    if (!connection || !subscribe) return;
+
+    // The source type decides which notifications arrive here
+    const callback = (notification: unknown) => {
+      const select = selectorRef.current;
+      const value = select
+        ? select(notification as ZMKNotificationOf<S>)
+        : (notification as T);
+      if (value === undefined) return;
+      setValueState({ connection, value });
+    };
+
+    if (type === "custom") {
+      if (subsystemIndex === null) return;
+      return subscribe({ type, subsystemIndex, replay, callback });
+    }
+    return subscribe({ type, replay, callback });
+  }, [connection, subscribe, type, subsystemIndex, replay]);
+
+  return valueState && valueState.connection === connection
+    ? valueState.value
+    : null;
+}
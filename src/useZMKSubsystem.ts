@@ -0,0 +1,134 @@
+/**
+ * useZMKSubsystem Hook
+ * Hook for a custom subsystem of the connected ZMK device, bound by identifier
+ */
+
+import {
+  useState,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import type { CustomNotification } from "@zmkfirmware/zmk-studio-ts-client/custom";
+import { ZMKAppContext } from "./ZMKAppContext";
+import {
+  ZMKCustomSubsystem,
+  ZMKCustomSubsystemError,
+} from "./ZMKCustomSubsystem";
+import type { ZMKCallOptions } from "./ZMKCustomSubsystem";
+
+export interface UseZMKSubsystemOptions {
+  /** Called with each notification sent by the subsystem */
+  onNotification?: (notification: CustomNotification) => void;
+}
+
+export interface UseZMKSubsystemReturn {
+  /** Service for the subsystem, or null when it is not available */
+  subsystem: ZMKCustomSubsystem | null;
+  /** Whether the device is connected and reports the subsystem */
+  isAvailable: boolean;
+  /**
+   * Send an RPC request to the subsystem
+   * @throws ZMKCustomSubsystemError of type "connection" if the subsystem is not available
+   */
+  call: (
+    payload: Uint8Array,
+    options?: ZMKCallOptions
+  ) => Promise<Uint8Array | null>;
+  /** Most recent notification from the subsystem on the current connection */
+  lastNotification: CustomNotification | null;
+}
+
+/**
+ * Last notification, tagged with the subsystem service it was received for
+ */
+interface NotificationState {
+  subsystem: ZMKCustomSubsystem;
+  notification: CustomNotification;
+}
+
+/**
+ * Hook for a custom subsystem of the device connected through ZMKAppContext
+ *
+ * Looks the subsystem up by identifier, creates a ZMKCustomSubsystem for each
+ * new connection, and subscribes to its notifications until the component
+ * unmounts or the device disconnects.
+ *
+ * @param identifier - Identifier of the subsystem, as registered in firmware
+ * @param options - Optional notification callback
+ *
+ * @example
+ * const { isAvailable, call, lastNotification } = useZMKSubsystem("my_subsystem", {
+ *   onNotification: (notification) => console.log(notification.payload),
+ * });
+ * const response = await call(payload);
+ */
+export function useZMKSubsystem(
+  identifier: string,
+  options: UseZMKSubsystemOptions = {}
+): UseZMKSubsystemReturn {
+  const zmkApp = useContext(ZMKAppContext);
+  const connection = zmkApp?.state.connection ?? null;
+  const subsystemIndex = zmkApp?.findSubsystem(identifier)?.index ?? null;
+  const subscribe = zmkApp?.onNotification;
+
+  const subsystem = useMemo(
+    () =>
+      connection && subsystemIndex !== null
+        ? new ZMKCustomSubsystem(connection, subsystemIndex)
+        : null,
+    [connection, subsystemIndex]
+  );
+
+  const [notificationState, setNotificationState] =
+    useState<NotificationState | null>(null);
+  // Ignore notifications received for a previous connection
+  const lastNotification =
+    notificationState && notificationState.subsystem === subsystem
+      ? notificationState.notification
+      : null;
+
+  // Latest notification callback, read by the subscription
+  const onNotificationRef = useRef(options.onNotification);
+  useEffect(() => {
+    onNotificationRef.current = options.onNotification;
+  }, [options.onNotification]);
+
+  /**
+   * Effect: Subscribe to the subsystem's notifications while it is available
+   */
+  useEffect(() => {
+    if (!subsystem || !subscribe) return;
+
+    return subscribe({
+      type: "custom",
+      subsystemIndex: subsystem.getSubsystemIndex(),
+      callback: (notification) => {
+        setNotificationState({ subsystem, notification });
+        onNotificationRef.current?.(notification);
+      },
+    });
+  }, [subsystem, subscribe]);
+
+  const call = useCallback(
+    async (payload: Uint8Array, callOptions?: ZMKCallOptions) => {
+      if (!subsystem) {
+        throw new ZMKCustomSubsystemError(
+          "connection",
+          `Subsystem ${identifier} is not available`
+        );
+      }
+      return subsystem.callRPC(payload, callOptions);
+    },
+    [subsystem, identifier]
+  );
+
+  return {
+    subsystem,
+    isAvailable: subsystem !== null,
+    call,
+    lastNotification,
+  };
+}
@@ -2,22 +2,175 @@
  * Utility functions for ZMK Studio React Hook
  */
 
+/**
+ * Operations with a configurable default timeout
+ * "default" applies to every operation without a timeout of its own
+ */
+export type ZMKTimeoutOperation =
+  | "default"
+  | "getDeviceInfo"
+  | "listCustomSubsystems"
+  | "getLockState"
+  | "checkUnsavedChanges"
+  | "customCall";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Default timeouts set with configureZMKTimeouts
+const timeoutDefaults: Partial<Record<ZMKTimeoutOperation, number>> = {};
+
+/**
+ * Set default timeouts for library operations
+ * Applies to useZMKApp connection steps, RPC helpers and ZMKCustomSubsystem.
+ * An explicit timeout passed to a call still takes precedence.
+ *
+ * @param timeouts - Timeouts in milliseconds by operation; undefined restores the built-in default
+ *
+ * @example
+ * // Slow BLE link: wait longer for everything, but even longer for custom calls
+ * configureZMKTimeouts({ default: 10000, customCall: 15000 });
+ */
+export function configureZMKTimeouts(
+  timeouts: Partial<Record<ZMKTimeoutOperation, number | undefined>>
+): void {
+  for (const [operation, timeoutMs] of Object.entries(timeouts)) {
+    if (timeoutMs === undefined) {
+      delete timeoutDefaults[operation as ZMKTimeoutOperation];
+    } else {
+      timeoutDefaults[operation as ZMKTimeoutOperation] = timeoutMs;
+    }
+  }
+}
+
+/**
+ * Get the default timeout of an operation
+ * @param operation - Operation name (default: "default")
+ * @returns Timeout in milliseconds
+ */
+export function getZMKTimeout(operation: string = "default"): number {
+  return (
+    timeoutDefaults[operation as ZMKTimeoutOperation] ??
+    timeoutDefaults.default ??
+    DEFAULT_TIMEOUT_MS
+  );
+}
+
+/**
+ * Error thrown by withTimeout when the operation does not settle in time
+ */
+export class ZMKTimeoutError extends Error {
+  /** Name of the operation that timed out */
+  public operation: string;
+  /** Timeout that was exceeded, in milliseconds */
+  public timeoutMs: number;
+  /** Time between starting to wait and giving up, in milliseconds */
+  public elapsedMs: number;
+
+  constructor(
+    operation: string,
+    timeoutMs: number,
+    elapsedMs: number,
+    message: string = "Operation timed out"
+  ) {
+    super(message);
+    this.name = "ZMKTimeoutError";
+    this.operation = operation;
+    this.timeoutMs = timeoutMs;
+    this.elapsedMs = elapsedMs;
+  }
+}
+
+export interface WithTimeoutOptions {
+  /** Timeout in milliseconds (default: the operation's configured timeout) */
+  timeoutMs?: number;
+  /** Operation name, used for the configured default and in ZMKTimeoutError */
+  operation?: ZMKTimeoutOperation | (string & {});
+  /** Signal(s) that stop waiting; the promise rejects with the abort reason */
+  signal?: AbortSignal | AbortSignal[];
+  /** Error message on timeout (default: "Operation timed out") */
+  message?: string;
+}
+
+/**
+ * Reason to reject with when a signal is aborted
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
 /**
  * Wraps a promise with a timeout
+ *
+ * The timer and abort listeners are removed as soon as the race settles.
+ * The wrapped promise itself cannot be cancelled; its result is ignored once
+ * the timeout fires or a signal aborts.
+ *
  * @param promise - The promise to wrap
- * @param timeoutMs - Timeout in milliseconds (default: 5000ms)
- * @param errorMessage - Custom error message for timeout (default: "Operation timed out")
+ * @param options - Timeout in milliseconds, or options
+ * @param errorMessage - Custom error message for timeout, when `options` is a number (default: "Operation timed out")
  * @returns The result of the promise if it resolves before timeout
- * @throws Error if the promise doesn't resolve within the timeout period
+ * @throws ZMKTimeoutError if the promise doesn't resolve within the timeout period
+ * @throws The abort reason if a signal is aborted first
+ *
+ * @example
+ * await withTimeout(call_rpc(connection, request), {
+ *   operation: "getDeviceInfo",
+ *   signal: controller.signal,
+ * });
  */
-export async function withTimeout<T>(
+export function withTimeout<T>(
   promise: Promise<T>,
-  timeoutMs: number = 5000,
-  errorMessage: string = "Operation timed out"
+  options?: number | WithTimeoutOptions,
+  errorMessage?: string
 ): Promise<T> {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error(errorMessage)), timeoutMs);
-  });
+  const {
+    operation = "default",
+    timeoutMs = getZMKTimeout(operation),
+    signal,
+    message = errorMessage,
+  } = typeof options === "number" ? { timeoutMs: options } : (options ?? {});
+  const signals = signal ? [signal].flat() : [];
+
+  return new Promise<T>((resolve, reject) => {
+    const aborted = signals.find((s) => s.aborted);
+    if (aborted) {
+      reject(abortReason(aborted));
+      return;
+    }
 
-  return Promise.race([promise, timeoutPromise]);
+    const startedAt = Date.now();
+    const listeners = signals.map((s) => {
+      const onAbort = () => settle(() => reject(abortReason(s)));
+      s.addEventListener("abort", onAbort, { once: true });
+      return () => s.removeEventListener("abort", onAbort);
+    });
+    const timer = setTimeout(
+      () =>
+        settle(() =>
+          reject(
+            new ZMKTimeoutError(
+              operation,
+              timeoutMs,
+              Date.now() - startedAt,
+              message
+            )
+          )
+        ),
+      timeoutMs
+    );
+
+    let settled = false;
+    function settle(fn: () => void) {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      listeners.forEach((remove) => remove());
+      fn();
+    }
+
+    promise.then(
+      (value) => settle(() => resolve(value)),
+      (error) => settle(() => reject(error))
+    );
+  });
 }
@@ -12,6 +12,9 @@ describe("ZMKAppContext", () => {
       connection: null,
       deviceInfo: null,
       customSubsystems: null,
+      hasUnsavedChanges: false,
+      lockState: null,
+      status: { type: "disconnected" } as const,
       isLoading: false,
       error: null,
     },
@@ -20,6 +23,9 @@ describe("ZMKAppContext", () => {
     findSubsystem: jest.fn(),
     isConnected: false,
     onNotification: jest.fn(),
+    hasUnsavedChanges: false,
+    saveChanges: jest.fn(),
+    discardChanges: jest.fn(),
   };
 
   it("should provide ZMK app context to children", () => {
@@ -0,0 +1,324 @@
+/**
+ * Tests for the postMessage bridge
+ */
+
+import {
+  ReadableStream,
+  TransformStream,
+  WritableStream,
+} from "node:stream/web";
+import { MessageChannel } from "node:worker_threads";
+import {
+  connectViaBridge,
+  createZMKBridgeHost,
+  ZMKBridgeError,
+} from "../src/ZMKBridge";
+import type { ZMKBridgeHost } from "../src/ZMKBridge";
+import { createConnectedMockZMKApp, createMockZMKApp } from "../src/testing";
+import { configureZMKTimeouts, ZMKTimeoutError } from "../src/utils";
+import { getZMKRequestScheduler } from "../src/ZMKRequestScheduler";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+
+// jsdom lacks the web streams and MessageChannel the bridge uses
+Object.assign(globalThis, {
+  ReadableStream,
+  TransformStream,
+  WritableStream,
+  MessageChannel,
+});
+
+// Messages are "encoded" as a one-byte reference, so tests can compare objects
+const encoded: unknown[] = [];
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => {
+  const codec = {
+    encode: (message: unknown) => ({
+      finish: () => new Uint8Array([encoded.push(message) - 1]),
+    }),
+    decode: (bytes: Uint8Array) => encoded[bytes[0]],
+  };
+  return { call_rpc: jest.fn(), Request: codec, Response: codec };
+});
+jest.mock("@zmkfirmware/zmk-studio-ts-client/framing", () => {
+  const identity = () => ({
+    transform: (
+      chunk: Uint8Array,
+      controller: { enqueue: (c: Uint8Array) => void }
+    ) => controller.enqueue(chunk),
+  });
+  return { get_encoder: identity, get_decoder: identity };
+});
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+const MODULE_ORIGIN = "https://module.example.com";
+const HOST_ORIGIN = "https://studio.example.com";
+
+/**
+ * Host window as seen by the client: delivers messages to this window's
+ * listeners as if posted from the given origin
+ */
+function hostWindow(origin: string) {
+  return {
+    postMessage: (data: unknown, _targetOrigin: string, ports: unknown[]) => {
+      window.dispatchEvent(
+        Object.assign(new Event("message"), { data, origin, ports })
+      );
+    },
+  } as unknown as Window;
+}
+
+function encode(message: unknown) {
+  return new Uint8Array([encoded.push(message) - 1]);
+}
+
+async function readMessage(transport: RpcTransport) {
+  const reader = transport.readable.getReader();
+  const { value, done } = await reader.read();
+  reader.releaseLock();
+  return done ? null : encoded[value[0]];
+}
+
+async function send(transport: RpcTransport, request: unknown) {
+  const writer = transport.writable.getWriter();
+  await writer.write(encode(request));
+  writer.releaseLock();
+}
+
+describe("ZMK bridge", () => {
+  let zmkApp: UseZMKAppReturn;
+  let host: ZMKBridgeHost;
+  let transports: RpcTransport[];
+
+  const connect = async (origin = MODULE_ORIGIN) => {
+    const transport = await connectViaBridge({
+      hostOrigin: HOST_ORIGIN,
+      target: hostWindow(origin),
+      timeoutMs: 1000,
+    });
+    transports.push(transport);
+    return transport;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transports = [];
+    zmkApp = createConnectedMockZMKApp({ subsystems: ["rgb", "secret"] });
+    host = createZMKBridgeHost(zmkApp, {
+      allowedOrigins: [MODULE_ORIGIN],
+      allowedSubsystems: ["rgb"],
+    });
+  });
+
+  afterEach(() => {
+    host.close();
+    transports.forEach((transport) => transport.abortController.abort());
+  });
+
+  it("should refuse windows from other origins", async () => {
+    await expect(connect("https://evil.example.com")).rejects.toThrow(
+      ZMKBridgeError
+    );
+  });
+
+  it("should forward allowed requests to the host connection", async () => {
+    const deviceInfo = { name: "Host Keyboard" };
+    call_rpc.mockResolvedValue({
+      requestId: 99,
+      core: { getDeviceInfo: deviceInfo },
+    });
+    const transport = await connect();
+
+    await send(transport, { requestId: 4, core: { getDeviceInfo: true } });
+
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 4, core: { getDeviceInfo: deviceInfo } },
+    });
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      core: { getDeviceInfo: true },
+    });
+  });
+
+  it("should list and call only the allowed subsystems", async () => {
+    const transport = await connect();
+
+    await send(transport, {
+      requestId: 1,
+      custom: { listCustomSubsystems: {} },
+    });
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: {
+        requestId: 1,
+        custom: {
+          listCustomSubsystems: {
+            subsystems: [{ index: 0, identifier: "rgb", uiUrl: [] }],
+          },
+        },
+      },
+    });
+
+    const payload = new Uint8Array([5]);
+    await send(transport, {
+      requestId: 2,
+      custom: { call: { subsystemIndex: 1, payload } },
+    });
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 2, meta: { simpleError: 2 } },
+    });
+
+    await send(transport, { requestId: 3, keymap: { getKeymap: true } });
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 3, meta: { simpleError: 2 } },
+    });
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should refuse requests that smuggle other fields", async () => {
+    const transport = await connect();
+    const smuggled = [
+      { core: { getDeviceInfo: true }, keymap: { saveChanges: true } },
+      { core: { getDeviceInfo: true, resetSettings: true } },
+      {
+        custom: {
+          call: { subsystemIndex: 0, payload: new Uint8Array() },
+          listCustomSubsystems: {},
+        },
+      },
+    ];
+
+    for (const [i, body] of smuggled.entries()) {
+      await send(transport, { requestId: i, ...body });
+      expect(await readMessage(transport)).toEqual({
+        requestResponse: { requestId: i, meta: { simpleError: 2 } },
+      });
+    }
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should forward only the allowed field of a request", async () => {
+    call_rpc.mockResolvedValue({ requestId: 0, keymap: {} });
+    const transport = await connect();
+
+    await send(transport, {
+      requestId: 5,
+      core: undefined,
+      keymap: { checkUnsavedChanges: true, saveChanges: undefined },
+    });
+    await readMessage(transport);
+
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      keymap: { checkUnsavedChanges: true },
+    });
+  });
+
+  it("should answer failed calls with meta errors", async () => {
+    call_rpc.mockRejectedValue({ condition: 1 });
+    const transport = await connect();
+
+    await send(transport, {
+      requestId: 7,
+      custom: { call: { subsystemIndex: 0, payload: new Uint8Array([1]) } },
+    });
+
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 7, meta: { simpleError: 1 } },
+    });
+  });
+
+  it("should answer custom calls with the subsystem's response", async () => {
+    const payload = new Uint8Array([6]);
+    call_rpc.mockResolvedValue({ requestId: 0, custom: { call: { payload } } });
+    const transport = await connect();
+
+    await send(transport, {
+      requestId: 8,
+      custom: { call: { subsystemIndex: 0, payload: new Uint8Array([1]) } },
+    });
+
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 8, custom: { call: { payload } } },
+    });
+  });
+
+  it("should time out forwarded requests", async () => {
+    configureZMKTimeouts({ getLockState: 10 });
+    call_rpc.mockReturnValue(new Promise(() => {}));
+    const transport = await connect();
+
+    try {
+      await send(transport, { requestId: 6, core: { getLockState: true } });
+
+      expect(await readMessage(transport)).toEqual({
+        requestResponse: { requestId: 6, meta: { noResponse: true } },
+      });
+    } finally {
+      configureZMKTimeouts({ getLockState: undefined });
+    }
+  });
+
+  it("should queue forwarded requests with the host's own calls", async () => {
+    call_rpc.mockResolvedValue({ requestId: 0, core: { getLockState: 1 } });
+    let finishHostCall: () => void = () => {};
+    getZMKRequestScheduler(zmkApp.state.connection!).schedule(
+      () => new Promise<void>((resolve) => (finishHostCall = resolve))
+    );
+    const transport = await connect();
+
+    await send(transport, { requestId: 9, core: { getLockState: true } });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(call_rpc).not.toHaveBeenCalled();
+
+    finishHostCall();
+    expect(await readMessage(transport)).toEqual({
+      requestResponse: { requestId: 9, core: { getLockState: 1 } },
+    });
+  });
+
+  it("should forward core, keymap and allowed subsystem notifications", async () => {
+    const transport = await connect();
+    const subscriptions = (zmkApp.onNotification as jest.Mock).mock.calls.map(
+      ([subscription]) => subscription
+    );
+    expect(subscriptions).toEqual([
+      expect.objectContaining({ type: "core" }),
+      expect.objectContaining({ type: "keymap" }),
+      expect.objectContaining({ type: "custom", subsystemIndex: 0 }),
+    ]);
+
+    const keymap = { unsavedChangesStatusChanged: true };
+    subscriptions[1].callback(keymap);
+    expect(await readMessage(transport)).toEqual({
+      notification: { keymap },
+    });
+
+    const customNotification = {
+      subsystemIndex: 0,
+      payload: new Uint8Array([9]),
+    };
+    subscriptions[2].callback(customNotification);
+
+    expect(await readMessage(transport)).toEqual({
+      notification: { custom: { customNotification } },
+    });
+  });
+
+  it("should close bridged connections when the host disconnects", async () => {
+    const transport = await connect();
+
+    host.update(createMockZMKApp());
+
+    expect(await readMessage(transport)).toBeNull();
+  });
+
+  it("should stop answering after closing", async () => {
+    host.close();
+
+    await expect(
+      connectViaBridge({
+        hostOrigin: HOST_ORIGIN,
+        target: hostWindow(MODULE_ORIGIN),
+        timeoutMs: 50,
+      })
+    ).rejects.toThrow(ZMKTimeoutError);
+  });
+});
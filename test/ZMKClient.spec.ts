@@ -0,0 +1,243 @@
+/**
+ * Tests for ZMKClient
+ */
+
+import { ZMKClient, ZMKConnectionError } from "../src/ZMKClient";
+import { ZMKKeymapError } from "../src/useZMKKeymap";
+import { setupZMKMocks, createMockConnection } from "../src/testing";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  create_rpc_connection: jest.fn(),
+  call_rpc: jest.fn(),
+}));
+
+/**
+ * Let queued promise callbacks run
+ */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("ZMKClient", () => {
+  let mocks: ReturnType<typeof setupZMKMocks>;
+
+  beforeEach(() => {
+    mocks = setupZMKMocks();
+    mocks.call_rpc.mockReset();
+  });
+
+  it("should start disconnected", () => {
+    const client = new ZMKClient();
+
+    expect(client.getState()).toMatchObject({
+      connection: null,
+      status: { type: "disconnected" },
+      isLoading: false,
+    });
+  });
+
+  it("should connect and report each phase to subscribers", async () => {
+    const client = new ZMKClient();
+    const statuses: string[] = [];
+    client.subscribe((state) => statuses.push(state.status.type));
+    mocks.mockSuccessfulConnection({
+      deviceName: "Node Keyboard",
+      subsystems: ["settings"],
+    });
+
+    await client.connect(jest.fn().mockResolvedValue(mocks.mockTransport));
+
+    expect(statuses).toEqual([
+      "connecting",
+      "fetchingDeviceInfo",
+      "listingSubsystems",
+      "checkingLockState",
+      "connected",
+    ]);
+    expect(client.getState().deviceInfo?.name).toBe("Node Keyboard");
+    expect(client.findSubsystem("settings")?.index).toBe(0);
+  });
+
+  it("should publish a new state object only on changes", async () => {
+    const client = new ZMKClient({ logger: { error: jest.fn() } });
+    const listener = jest.fn();
+    const unsubscribe = client.subscribe(listener);
+    const initial = client.getState();
+
+    // Already disconnected
+    client.disconnect();
+    expect(client.getState()).toBe(initial);
+    expect(listener).not.toHaveBeenCalled();
+
+    await client.connect(jest.fn().mockRejectedValue(new Error("No port")));
+    expect(client.getState()).not.toBe(initial);
+    expect(listener).toHaveBeenLastCalledWith(client.getState());
+
+    unsubscribe();
+    listener.mockClear();
+    client.disconnect();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should report connection failures in the state and to onError", async () => {
+    const onError = jest.fn();
+    const client = new ZMKClient({ onError, logger: { error: jest.fn() } });
+
+    await client.connect(jest.fn().mockRejectedValue(new Error("No port")));
+
+    expect(client.getState().status).toMatchObject({
+      type: "failed",
+      error: { kind: "transport" },
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(ZMKConnectionError));
+  });
+
+  it("should track notifications and clear subscriptions on disconnect", async () => {
+    const client = new ZMKClient();
+    const callback = jest.fn();
+    client.onNotification({ type: "keymap", callback });
+    mocks.mockSuccessfulConnection({
+      notifications: [{ keymap: { unsavedChangesStatusChanged: true } }],
+    });
+
+    await client.connect(jest.fn().mockResolvedValue(mocks.mockTransport));
+    await flush();
+
+    expect(callback).toHaveBeenCalledWith({
+      unsavedChangesStatusChanged: true,
+    });
+    expect(client.getState().hasUnsavedChanges).toBe(true);
+
+    const onDisconnected = jest.fn();
+    client.setOptions({ onDisconnected });
+    client.disconnect();
+    expect(onDisconnected).toHaveBeenCalledTimes(1);
+    expect(client.getState().connection).toBeNull();
+  });
+
+  it("should report disconnecting while the transport closes", async () => {
+    const client = new ZMKClient();
+    mocks.mockSuccessfulConnection();
+    await client.connect(jest.fn().mockResolvedValue(mocks.mockTransport));
+    const { signal } = mocks.create_rpc_connection.mock.calls[0][1];
+    const seen: { status: string; aborted: boolean }[] = [];
+    client.subscribe((state) =>
+      seen.push({ status: state.status.type, aborted: signal.aborted })
+    );
+
+    client.disconnect();
+
+    expect(seen).toEqual([
+      { status: "disconnecting", aborted: false },
+      { status: "disconnected", aborted: true },
+    ]);
+  });
+
+  it("should close the connection and stay closed once disposed", async () => {
+    const client = new ZMKClient({
+      reconnect: { maxAttempts: 3, backoffMs: 5 },
+    });
+    const { connection } = mocks.mockSuccessfulConnection();
+    let failRead: (error: Error) => void = () => {};
+    connection.notification_readable.getReader = jest.fn().mockReturnValue({
+      read: () =>
+        new Promise((_, reject) => {
+          failRead = reject;
+        }),
+      releaseLock: jest.fn(),
+    });
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+    await client.connect(connectFunction);
+    const { signal } = mocks.create_rpc_connection.mock.calls[0][1];
+
+    client.dispose();
+    expect(signal.aborted).toBe(true);
+
+    // A read failing after the abort must not start reconnecting
+    failRead(new Error("Device lost"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await client.connect(connectFunction);
+    expect(connectFunction).toHaveBeenCalledTimes(1);
+  });
+
+  it("should let only the newest connect attempt update the state", async () => {
+    const client = new ZMKClient({ logger: { error: jest.fn() } });
+    mocks.mockSuccessfulConnection();
+    let openFirst: (transport: unknown) => void = () => {};
+    const first = client.connect(
+      jest.fn(() => new Promise((resolve) => (openFirst = resolve))) as never
+    );
+
+    await client.connect(jest.fn().mockRejectedValue(new Error("No port")));
+    openFirst(mocks.mockTransport);
+    await first;
+
+    expect(client.getState()).toMatchObject({
+      connection: null,
+      status: { type: "failed", error: { kind: "transport" } },
+    });
+  });
+
+  it("should keep the phases of a newer attempt when an older one fails", async () => {
+    const onError = jest.fn();
+    const client = new ZMKClient({ onError, logger: { error: jest.fn() } });
+    mocks.mockSuccessfulConnection();
+    let failFirst: (error: Error) => void = () => {};
+    const first = client.connect(
+      jest.fn(() => new Promise((_, reject) => (failFirst = reject))) as never
+    );
+    let openSecond: (transport: unknown) => void = () => {};
+    const second = client.connect(
+      jest.fn(() => new Promise((resolve) => (openSecond = resolve))) as never
+    );
+
+    failFirst(new Error("Port closed"));
+    await first;
+    expect(client.getState()).toMatchObject({
+      status: { type: "connecting" },
+      isLoading: true,
+    });
+
+    openSecond(mocks.mockTransport);
+    await second;
+    expect(client.getState().status).toEqual({ type: "connected" });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should stop a connection step at once when disconnected", async () => {
+    const client = new ZMKClient({ logger: { error: jest.fn() } });
+    mocks.create_rpc_connection.mockReturnValue(createMockConnection());
+    // The device never answers
+    mocks.call_rpc.mockReturnValueOnce(new Promise(() => {}));
+    const pending = client.connect(
+      jest.fn().mockResolvedValue(mocks.mockTransport)
+    );
+    await flush();
+    expect(client.getState().status).toEqual({ type: "fetchingDeviceInfo" });
+
+    client.disconnect();
+    await pending;
+
+    expect(client.getState().status).toMatchObject({
+      type: "failed",
+      error: { kind: "aborted" },
+    });
+  });
+
+  it("should load without React", () => {
+    jest.isolateModules(() => {
+      jest.doMock("react", () => {
+        throw new Error("react is not available");
+      });
+      expect(() => require("../src/ZMKClient")).not.toThrow();
+    });
+  });
+
+  it("should reject keymap changes when not connected", async () => {
+    const client = new ZMKClient();
+
+    await expect(client.saveChanges()).rejects.toThrow(ZMKKeymapError);
+    await expect(client.discardChanges()).rejects.toThrow(ZMKKeymapError);
+  });
+});
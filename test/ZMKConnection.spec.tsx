@@ -7,6 +7,11 @@ import { render, screen } from "@testing-library/react";
 import { ZMKConnection } from "../src/ZMKConnection";
 import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
 
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
 // Mock the useZMKApp hook
 jest.mock("../src/useZMKApp", () => ({
   useZMKApp: jest.fn(),
@@ -96,6 +101,66 @@ describe("ZMKConnection", () => {
     expect(screen.queryByText("Disconnected")).toBeNull();
   });
 
+  it("should render locked state when the device is locked", () => {
+    useZMKApp.mockReturnValue({
+      state: {
+        connection: { label: "test" },
+        deviceInfo: { name: "Test Device", serialNumber: new Uint8Array() },
+        customSubsystems: { subsystems: [] },
+        lockState: 0, // ZMK_STUDIO_CORE_LOCK_STATE_LOCKED
+        status: { type: "connected" } as const,
+        isLoading: false,
+        error: null,
+      },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      isConnected: true,
+      findSubsystem: jest.fn(),
+      onNotification: jest.fn(),
+    });
+
+    render(
+      <ZMKConnection
+        renderDisconnected={() => <div>Disconnected</div>}
+        renderConnected={() => <div>Connected</div>}
+        renderLocked={({ deviceName }) => (
+          <div>Unlock {deviceName} to continue</div>
+        )}
+      />
+    );
+
+    expect(screen.getByText("Unlock Test Device to continue")).toBeDefined();
+    expect(screen.queryByText("Connected")).toBeNull();
+  });
+
+  it("should render connected state when locked without renderLocked", () => {
+    useZMKApp.mockReturnValue({
+      state: {
+        connection: { label: "test" },
+        deviceInfo: { name: "Test Device", serialNumber: new Uint8Array() },
+        customSubsystems: { subsystems: [] },
+        lockState: 0, // ZMK_STUDIO_CORE_LOCK_STATE_LOCKED
+        status: { type: "connected" } as const,
+        isLoading: false,
+        error: null,
+      },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      isConnected: true,
+      findSubsystem: jest.fn(),
+      onNotification: jest.fn(),
+    });
+
+    render(
+      <ZMKConnection
+        renderDisconnected={() => <div>Disconnected</div>}
+        renderConnected={() => <div>Connected</div>}
+      />
+    );
+
+    expect(screen.getByText("Connected")).toBeDefined();
+  });
+
   it("should show loading state", () => {
     useZMKApp.mockReturnValue({
       state: {
@@ -152,6 +217,100 @@ describe("ZMKConnection", () => {
     expect(screen.getByText("Error: Connection failed")).toBeDefined();
   });
 
+  it("should render the connecting phase with renderConnecting", () => {
+    useZMKApp.mockReturnValue({
+      state: {
+        connection: null,
+        deviceInfo: null,
+        customSubsystems: null,
+        status: { type: "fetchingDeviceInfo" },
+        isLoading: true,
+        error: null,
+      },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      isConnected: false,
+      findSubsystem: jest.fn(),
+      onNotification: jest.fn(),
+    });
+
+    render(
+      <ZMKConnection
+        renderDisconnected={() => <div>Disconnected</div>}
+        renderConnected={() => <div>Connected</div>}
+        renderConnecting={({ phase }) => <div>Phase: {phase}</div>}
+      />
+    );
+
+    expect(screen.getByText("Phase: fetchingDeviceInfo")).toBeDefined();
+  });
+
+  it("should render reconnection progress with renderReconnecting", () => {
+    useZMKApp.mockReturnValue({
+      state: {
+        connection: null,
+        deviceInfo: { name: "Test Device", serialNumber: new Uint8Array() },
+        customSubsystems: null,
+        status: { type: "reconnecting", attempt: 2, maxAttempts: 5 },
+        isLoading: false,
+        error: null,
+      },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      isConnected: false,
+      findSubsystem: jest.fn(),
+      onNotification: jest.fn(),
+    });
+
+    render(
+      <ZMKConnection
+        renderDisconnected={() => <div>Disconnected</div>}
+        renderConnected={() => <div>Connected</div>}
+        renderReconnecting={({ attempt, maxAttempts, deviceName }) => (
+          <div>
+            Reconnecting to {deviceName} ({attempt}/{maxAttempts})
+          </div>
+        )}
+      />
+    );
+
+    expect(
+      screen.getByText("Reconnecting to Test Device (2/5)")
+    ).toBeDefined();
+  });
+
+  it("should render the failure with renderFailed", () => {
+    const error = Object.assign(new Error("No port selected"), {
+      kind: "userCancelled",
+    });
+    useZMKApp.mockReturnValue({
+      state: {
+        connection: null,
+        deviceInfo: null,
+        customSubsystems: null,
+        status: { type: "failed", error },
+        isLoading: false,
+        error: error.message,
+      },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      isConnected: false,
+      findSubsystem: jest.fn(),
+      onNotification: jest.fn(),
+    });
+
+    render(
+      <ZMKConnection
+        renderDisconnected={() => <div>Disconnected</div>}
+        renderConnected={() => <div>Connected</div>}
+        renderFailed={({ error }) => <div>Failed: {error.kind}</div>}
+      />
+    );
+
+    expect(screen.getByText("Failed: userCancelled")).toBeDefined();
+    expect(screen.queryByText("Disconnected")).toBeNull();
+  });
+
   it("should provide findSubsystem function to connected render", () => {
     const mockFindSubsystem = jest
       .fn()
@@ -203,6 +362,9 @@ describe("ZMKConnection", () => {
         connection: mockConnection,
         deviceInfo: { name: "External Device", serialNumber: new Uint8Array() },
         customSubsystems: { subsystems: [] },
+        hasUnsavedChanges: false,
+        lockState: null,
+        status: { type: "connected" } as const,
         isLoading: false,
         error: null,
       },
@@ -211,6 +373,9 @@ describe("ZMKConnection", () => {
       isConnected: true,
       findSubsystem: jest.fn(),
       onNotification: jest.fn(),
+      hasUnsavedChanges: false,
+      saveChanges: jest.fn(),
+      discardChanges: jest.fn(),
     };
 
     // useZMKApp should NOT be called when zmkApp prop is provided
@@ -260,6 +425,9 @@ describe("ZMKConnection", () => {
         connection: mockConnection,
         deviceInfo: { name: "Context Test", serialNumber: new Uint8Array() },
         customSubsystems: { subsystems: [] },
+        hasUnsavedChanges: false,
+        lockState: null,
+        status: { type: "connected" } as const,
         isLoading: false,
         error: null,
       },
@@ -268,6 +436,9 @@ describe("ZMKConnection", () => {
       isConnected: true,
       findSubsystem: jest.fn(),
       onNotification: jest.fn(),
+      hasUnsavedChanges: false,
+      saveChanges: jest.fn(),
+      discardChanges: jest.fn(),
     };
 
     useZMKApp.mockReturnValue(mockZmkApp);
@@ -312,6 +483,9 @@ describe("ZMKConnection", () => {
         connection: mockConnection,
         deviceInfo: { name: "Internal Device", serialNumber: new Uint8Array() },
         customSubsystems: { subsystems: [] },
+        hasUnsavedChanges: false,
+        lockState: null,
+        status: { type: "connected" } as const,
         isLoading: false,
         error: null,
       },
@@ -320,6 +494,9 @@ describe("ZMKConnection", () => {
       isConnected: true,
       findSubsystem: jest.fn(),
       onNotification: jest.fn(),
+      hasUnsavedChanges: false,
+      saveChanges: jest.fn(),
+      discardChanges: jest.fn(),
     };
 
     useZMKApp.mockReturnValue(internalZmkApp);
@@ -5,7 +5,11 @@
 import {
   ZMKCustomSubsystem,
   ZMKCustomSubsystemError,
+  ZMKTypedSubsystem,
 } from "../src/ZMKCustomSubsystem";
+import type { ZMKMessageCodec } from "../src/ZMKCustomSubsystem";
+import { registerConnectionSignal } from "../src/rpc";
+import { ZMKTimeoutError } from "../src/utils";
 import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
 
 // Mock the call_rpc function
@@ -74,22 +78,31 @@ describe("ZMKCustomSubsystem", () => {
       expect(result).toBeNull();
     });
 
-    it("should return null when response is missing custom field", async () => {
+    it("should throw when response is missing custom field", async () => {
       const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
       (call_rpc as jest.Mock).mockResolvedValue({});
 
-      const result = await service.callRPC(new Uint8Array([1, 2, 3]));
-      expect(result).toBeNull();
+      await expect(
+        service.callRPC(new Uint8Array([1, 2, 3]))
+      ).rejects.toMatchObject({
+        name: "ZMKCustomSubsystemError",
+        type: "rpc",
+        message: "Response does not contain a custom call result",
+      });
     });
 
-    it("should propagate RPC errors", async () => {
+    it("should wrap RPC errors", async () => {
       const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
       const error = new Error("RPC failed");
       (call_rpc as jest.Mock).mockRejectedValue(error);
 
-      await expect(service.callRPC(new Uint8Array([1, 2, 3]))).rejects.toThrow(
-        "RPC failed"
-      );
+      await expect(
+        service.callRPC(new Uint8Array([1, 2, 3]))
+      ).rejects.toMatchObject({
+        type: "rpc",
+        message: "RPC failed",
+        cause: error,
+      });
     });
 
     it("should timeout after timeout", async () => {
@@ -111,6 +124,349 @@ describe("ZMKCustomSubsystem", () => {
     }, 3000);
   });
 
+  describe("callRPC errors", () => {
+    // Shapes of MetaError and NoResponseError from the client
+    class MetaError extends Error {
+      constructor(public condition: number) {
+        super("Meta error: " + condition);
+      }
+    }
+    const reject = (error: unknown) => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      (call_rpc as jest.Mock).mockRejectedValue(error);
+    };
+
+    it.each([
+      [1, "unlockRequired"],
+      [2, "rpcNotFound"],
+      [3, "rpc"],
+    ])("should map meta error %i to type %s", async (condition, type) => {
+      const error = new MetaError(condition);
+      reject(error);
+
+      await expect(service.callRPC(new Uint8Array([1]))).rejects.toMatchObject({
+        name: "ZMKCustomSubsystemError",
+        type,
+        code: condition,
+        cause: error,
+      });
+    });
+
+    it("should map a missing response to type noResponse", async () => {
+      reject(new Error("No RPC response received"));
+
+      await expect(service.callRPC(new Uint8Array([1]))).rejects.toMatchObject({
+        type: "noResponse",
+        code: undefined,
+      });
+    });
+
+    it("should map generic meta errors in the response", async () => {
+      // call_rpc returns instead of throwing for ErrorConditions.GENERIC (0)
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      (call_rpc as jest.Mock).mockResolvedValue({ meta: { simpleError: 0 } });
+
+      await expect(service.callRPC(new Uint8Array([1]))).rejects.toMatchObject({
+        type: "rpc",
+        code: 0,
+      });
+    });
+
+    it("should map a closed response stream to type connection", async () => {
+      reject("No response");
+
+      await expect(service.callRPC(new Uint8Array([1]))).rejects.toMatchObject({
+        type: "connection",
+        message: "Connection closed",
+      });
+    });
+
+    it("should throw subsystem errors found by decodeError", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      const decodeError = (payload: Uint8Array) =>
+        payload[0] === 0xff ? { code: payload[1] } : null;
+      const checked = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        decodeError,
+      });
+
+      (call_rpc as jest.Mock).mockResolvedValueOnce({
+        custom: { call: { payload: new Uint8Array([0xff, 4]) } },
+      });
+      await expect(checked.callRPC(new Uint8Array([1]))).rejects.toMatchObject({
+        type: "subsystem",
+        code: 4,
+        message: `Subsystem ${subsystemIndex} returned error 4`,
+      });
+
+      const ok = new Uint8Array([1, 2]);
+      (call_rpc as jest.Mock).mockResolvedValueOnce({
+        custom: { call: { payload: ok } },
+      });
+      await expect(checked.callRPC(new Uint8Array([1]))).resolves.toBe(ok);
+    });
+  });
+
+  describe("callRPC cancellation", () => {
+    it("should reject with an aborted error when the signal aborts", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      (call_rpc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      const controller = new AbortController();
+
+      const pending = service.callRPC(new Uint8Array([1]), {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({
+        name: "ZMKCustomSubsystemError",
+        type: "aborted",
+      });
+    });
+
+    it("should not send the request when already aborted", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        service.callRPC(new Uint8Array([1]), { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ZMKCustomSubsystemError);
+      expect(call_rpc).not.toHaveBeenCalled();
+    });
+
+    it("should abort when the connection's signal aborts", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      (call_rpc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      const controller = new AbortController();
+      registerConnectionSignal(mockConnection, controller.signal);
+
+      const pending = service.callRPC(new Uint8Array([1]));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ type: "aborted" });
+    });
+
+    it("should clear the timeout timer once settled", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      (call_rpc as jest.Mock).mockResolvedValue({ custom: { call: {} } });
+      const clearSpy = jest.spyOn(global, "clearTimeout");
+
+      await service.callRPC(new Uint8Array([1]));
+
+      expect(clearSpy).toHaveBeenCalled();
+      clearSpy.mockRestore();
+    });
+  });
+
+  describe("callRPC scheduling", () => {
+    it("should send calls on a connection one at a time", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      let answer: (value: unknown) => void = () => {};
+      (call_rpc as jest.Mock)
+        .mockReturnValueOnce(new Promise((resolve) => (answer = resolve)))
+        .mockResolvedValueOnce({ custom: { call: {} } });
+      const other = new ZMKCustomSubsystem(mockConnection, 6);
+
+      const first = service.callRPC(new Uint8Array([1]));
+      const second = other.callRPC(new Uint8Array([2]));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+
+      answer({ custom: { call: { payload: new Uint8Array([9]) } } });
+      await expect(first).resolves.toEqual(new Uint8Array([9]));
+      await expect(second).resolves.toBeNull();
+      expect(call_rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it("should coalesce identical calls when asked to", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      const payload = new Uint8Array([7]);
+      (call_rpc as jest.Mock).mockResolvedValue({
+        custom: { call: { payload } },
+      });
+
+      const results = await Promise.all([
+        service.callRPC(new Uint8Array([1]), { coalesce: true }),
+        service.callRPC(new Uint8Array([1]), { coalesce: true }),
+        service.callRPC(new Uint8Array([2]), { coalesce: true }),
+      ]);
+
+      expect(results).toEqual([payload, payload, payload]);
+      expect(call_rpc).toHaveBeenCalledTimes(2);
+    });
+    it("should apply each coalesced caller's signal and decoder", async () => {
+      const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+      let answer: (value: unknown) => void = () => {};
+      (call_rpc as jest.Mock).mockReturnValueOnce(
+        new Promise((resolve) => (answer = resolve))
+      );
+      const strict = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        decodeError: (payload) => (payload[0] === 1 ? { code: 1 } : null),
+      });
+      const controller = new AbortController();
+
+      const aborted = service.callRPC(new Uint8Array([1]), {
+        coalesce: true,
+        signal: controller.signal,
+      });
+      const plain = service.callRPC(new Uint8Array([1]), { coalesce: true });
+      const decoded = strict.callRPC(new Uint8Array([1]), { coalesce: true });
+      controller.abort();
+      answer({ custom: { call: { payload: new Uint8Array([1]) } } });
+
+      await expect(aborted).rejects.toMatchObject({ type: "aborted" });
+      await expect(plain).resolves.toEqual(new Uint8Array([1]));
+      await expect(decoded).rejects.toMatchObject({ type: "subsystem" });
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("callRPC retries", () => {
+    const timeout = () => new ZMKTimeoutError("customCall", 10, 10);
+    // Thrown by call_rpc for the noResponse meta error
+    const noResponse = () => new Error("No RPC response received");
+    const payload = new Uint8Array([3]);
+    const ok = { custom: { call: { payload } } };
+    let call_rpc: jest.Mock;
+
+    beforeEach(() => {
+      call_rpc = require("@zmkfirmware/zmk-studio-ts-client").call_rpc;
+      call_rpc.mockReset();
+    });
+
+    // Drop responses left unused by calls that were not retried
+    afterEach(() => {
+      call_rpc.mockReset();
+    });
+
+    it("should not retry without a retry policy", async () => {
+      call_rpc.mockRejectedValueOnce(timeout()).mockResolvedValueOnce(ok);
+
+      await expect(service.callRPC(new Uint8Array([1]))).rejects.toThrow(
+        ZMKTimeoutError
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry unanswered calls until one succeeds", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { maxAttempts: 3, backoffMs: 1 },
+      });
+      call_rpc
+        .mockRejectedValueOnce(noResponse())
+        .mockRejectedValueOnce(noResponse())
+        .mockResolvedValueOnce(ok);
+
+      await expect(retrying.callRPC(new Uint8Array([1]))).resolves.toBe(
+        payload
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw the last error once attempts are exhausted", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { maxAttempts: 2, backoffMs: 1 },
+      });
+      const last = noResponse();
+      call_rpc.mockRejectedValueOnce(noResponse()).mockRejectedValueOnce(last);
+
+      await expect(retrying.callRPC(new Uint8Array([1]))).rejects.toMatchObject(
+        { type: "noResponse", cause: last }
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only retry errors the policy accepts", async () => {
+      call_rpc.mockRejectedValue(new Error("Device busy"));
+      const byDefault = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { backoffMs: 1 },
+      });
+      await expect(byDefault.callRPC(new Uint8Array([1]))).rejects.toThrow(
+        "Device busy"
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+
+      const isRetryable = jest.fn((type: string) => type === "rpc");
+      const custom = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { maxAttempts: 2, backoffMs: 1, isRetryable },
+      });
+      await expect(custom.callRPC(new Uint8Array([1]))).rejects.toThrow(
+        "Device busy"
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(3);
+      expect(isRetryable).toHaveBeenCalledWith("rpc", expect.any(Error));
+    });
+
+    it("should not retry timeouts by default", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { backoffMs: 1 },
+      });
+      call_rpc.mockRejectedValueOnce(timeout()).mockResolvedValueOnce(ok);
+
+      await expect(retrying.callRPC(new Uint8Array([1]))).rejects.toThrow(
+        ZMKTimeoutError
+      );
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not recover from a response that never arrives", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: {
+          maxAttempts: 3,
+          backoffMs: 1,
+          isRetryable: (type) => type === "timeout",
+        },
+      });
+      // Like call_rpc, send one request at a time; the first response is lost
+      let mutex: Promise<unknown> = Promise.resolve();
+      const sent = jest.fn();
+      call_rpc.mockImplementation(() => {
+        const response = mutex.then(() => {
+          sent();
+          return new Promise(() => {});
+        });
+        mutex = response;
+        return response;
+      });
+
+      await expect(
+        retrying.callRPC(new Uint8Array([1]), { timeout: 5 })
+      ).rejects.toThrow(ZMKTimeoutError);
+      // The retries time out waiting for the lock the lost call still holds
+      expect(call_rpc).toHaveBeenCalledTimes(3);
+      expect(sent).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry calls marked as not idempotent", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { backoffMs: 1 },
+      });
+      call_rpc.mockRejectedValueOnce(noResponse()).mockResolvedValueOnce(ok);
+
+      await expect(
+        retrying.callRPC(new Uint8Array([1]), { idempotent: false })
+      ).rejects.toMatchObject({ type: "noResponse" });
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop retrying when aborted during the backoff", async () => {
+      const retrying = new ZMKCustomSubsystem(mockConnection, subsystemIndex, {
+        retry: { backoffMs: 1000 },
+      });
+      const controller = new AbortController();
+      call_rpc.mockRejectedValueOnce(noResponse()).mockResolvedValueOnce(ok);
+
+      const pending = retrying.callRPC(new Uint8Array([1]), {
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ type: "aborted" });
+      expect(call_rpc).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("isReady", () => {
     it("should return true when connection exists", () => {
       expect(service.isReady()).toBe(true);
@@ -135,6 +491,151 @@ describe("ZMKCustomSubsystem", () => {
   });
 });
 
+/**
+ * Codec for single-byte messages, in the shape of ts-proto MessageFns
+ */
+const byteCodec: ZMKMessageCodec<{ value: number }> = {
+  encode: (message) => ({
+    finish: () => {
+      if (message.value > 0xff) throw new Error("Value out of range");
+      return new Uint8Array([message.value]);
+    },
+  }),
+  decode: (input) => {
+    if (input.length !== 1) throw new Error("Invalid length");
+    return { value: input[0] };
+  },
+};
+
+describe("ZMKTypedSubsystem", () => {
+  const subsystemIndex = 2;
+  let mockConnection: RpcConnection;
+  let client: ZMKTypedSubsystem<
+    { value: number },
+    { value: number },
+    { value: number }
+  >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConnection = {
+      label: "test",
+      current_request: 0,
+    } as unknown as RpcConnection;
+    client = new ZMKTypedSubsystem(mockConnection, subsystemIndex, {
+      request: byteCodec,
+      response: byteCodec,
+      notification: byteCodec,
+    });
+  });
+
+  it("should encode requests and decode responses", async () => {
+    const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+    (call_rpc as jest.Mock).mockResolvedValue({
+      custom: { call: { payload: new Uint8Array([9]) } },
+    });
+
+    const response = await client.call({ value: 4 });
+
+    expect(call_rpc).toHaveBeenCalledWith(mockConnection, {
+      custom: {
+        call: { subsystemIndex, payload: new Uint8Array([4]) },
+      },
+    });
+    expect(response).toEqual({ value: 9 });
+  });
+
+  it("should return null when the response has no payload", async () => {
+    const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+    (call_rpc as jest.Mock).mockResolvedValue({ custom: { call: {} } });
+
+    await expect(client.call({ value: 1 })).resolves.toBeNull();
+  });
+
+  it("should throw a validation error when decoding fails", async () => {
+    const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+    (call_rpc as jest.Mock).mockResolvedValue({
+      custom: { call: { payload: new Uint8Array([1, 2]) } },
+    });
+
+    const error = await client.call({ value: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ZMKCustomSubsystemError);
+    expect(error.type).toBe("validation");
+    expect(error.message).toBe("Failed to decode response: Invalid length");
+  });
+
+  it("should throw a validation error when encoding fails", async () => {
+    const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+    await expect(client.call({ value: 0x100 })).rejects.toMatchObject({
+      type: "validation",
+      message: "Failed to encode request: Value out of range",
+    });
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should decode notifications for its subsystem", () => {
+    expect(
+      client.decodeNotification({
+        subsystemIndex,
+        payload: new Uint8Array([7]),
+      })
+    ).toEqual({ value: 7 });
+    expect(() =>
+      client.decodeNotification({
+        subsystemIndex: 3,
+        payload: new Uint8Array([7]),
+      })
+    ).toThrow(ZMKCustomSubsystemError);
+  });
+
+  it("should subscribe to decoded notifications", () => {
+    const unsubscribe = jest.fn();
+    const onNotification = jest.fn().mockReturnValue(unsubscribe);
+    const callback = jest.fn();
+    const onError = jest.fn();
+
+    expect(client.subscribe(onNotification, callback, onError)).toBe(
+      unsubscribe
+    );
+    expect(onNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "custom", subsystemIndex })
+    );
+
+    const dispatch = onNotification.mock.calls[0][0].callback;
+    dispatch({ subsystemIndex, payload: new Uint8Array([5]) });
+    dispatch({ subsystemIndex, payload: new Uint8Array([]) });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ value: 5 });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "validation" })
+    );
+  });
+  it("should log undecodable notifications with the given logger", () => {
+    const logger = { error: jest.fn() };
+    const logging = new ZMKTypedSubsystem(
+      mockConnection,
+      subsystemIndex,
+      { request: byteCodec, response: byteCodec, notification: byteCodec },
+      { logger }
+    );
+    const onNotification = jest.fn().mockReturnValue(jest.fn());
+
+    logging.subscribe(onNotification, jest.fn());
+    onNotification.mock.calls[0][0].callback({
+      subsystemIndex,
+      payload: new Uint8Array([]),
+    });
+
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to decode custom notification",
+      expect.objectContaining({ type: "validation" })
+    );
+  });
+});
+
 describe("ZMKCustomSubsystemError", () => {
   it("should create connection error", () => {
     const error = new ZMKCustomSubsystemError(
@@ -155,6 +656,11 @@ describe("ZMKCustomSubsystemError", () => {
     expect(error.code).toBe(404);
   });
 
+  it("should create aborted error", () => {
+    const error = new ZMKCustomSubsystemError("aborted", "Cancelled");
+    expect(error.type).toBe("aborted");
+  });
+
   it("should create validation error", () => {
     const error = new ZMKCustomSubsystemError("validation", "Invalid payload");
     expect(error.name).toBe("ZMKCustomSubsystemError");
@@ -0,0 +1,204 @@
+/**
+ * Tests for ZMKDeviceManager
+ */
+
+import React, { useContext } from "react";
+import {
+  renderHook,
+  render,
+  screen,
+  act,
+  waitFor,
+} from "@testing-library/react";
+import {
+  ZMKDeviceManagerProvider,
+  ZMKDeviceProvider,
+  useZMKDeviceManager,
+  useZMKDevice,
+} from "../src/ZMKDeviceManager";
+import type { ZMKDeviceManager } from "../src/ZMKDeviceManager";
+import { ZMKAppContext } from "../src/ZMKAppContext";
+import type { RpcTransport } from "@zmkfirmware/zmk-studio-ts-client/transport/index";
+import { setupZMKMocks } from "../src/testing";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  create_rpc_connection: jest.fn(),
+  call_rpc: jest.fn(),
+}));
+
+function wrapper({ children }: { children: React.ReactNode }) {
+  return <ZMKDeviceManagerProvider>{children}</ZMKDeviceManagerProvider>;
+}
+
+/**
+ * Connect a device; the device slot has to render before the connect
+ * promise can settle, so the call and the wait use separate act scopes
+ */
+async function connectDevice(
+  manager: ZMKDeviceManager,
+  connectFunction: () => Promise<RpcTransport>,
+  id?: string
+): Promise<string> {
+  let pending: Promise<string> = Promise.resolve("");
+  act(() => {
+    pending = manager.connect(connectFunction, id);
+  });
+  let deviceId = "";
+  await act(async () => {
+    deviceId = await pending;
+  });
+  return deviceId;
+}
+
+describe("ZMKDeviceManager", () => {
+  let mocks: ReturnType<typeof setupZMKMocks>;
+
+  beforeEach(() => {
+    mocks = setupZMKMocks();
+  });
+
+  /**
+   * Queue mocks for connecting the left half, then the right half
+   */
+  function mockSplitKeyboard(leftNotifications: unknown[] = []) {
+    const left = mocks.mockSuccessfulConnection({
+      deviceName: "Left",
+      notifications: leftNotifications,
+    });
+    const right = mocks.mockSuccessfulConnection({ deviceName: "Right" });
+    mocks.create_rpc_connection
+      .mockReturnValueOnce(left.connection)
+      .mockReturnValueOnce(right.connection);
+    return { left, right };
+  }
+
+  it("should start without devices", () => {
+    const { result } = renderHook(() => useZMKDeviceManager(), { wrapper });
+
+    expect(result.current.deviceIds).toEqual([]);
+    expect(result.current.devices).toEqual({});
+  });
+
+  it("should connect several devices with their own state", async () => {
+    const { left, right } = mockSplitKeyboard();
+    const { result } = renderHook(
+      () => ({
+        manager: useZMKDeviceManager(),
+        left: useZMKDevice("left"),
+        right: useZMKDevice("right"),
+      }),
+      { wrapper }
+    );
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    await connectDevice(result.current.manager, connectFunction, "left");
+    await connectDevice(result.current.manager, connectFunction, "right");
+
+    expect(result.current.manager.deviceIds).toEqual(["left", "right"]);
+    expect(result.current.left?.state.connection).toBe(left.connection);
+    expect(result.current.left?.state.deviceInfo?.name).toBe("Left");
+    expect(result.current.right?.state.connection).toBe(right.connection);
+    expect(result.current.right?.state.deviceInfo?.name).toBe("Right");
+  });
+
+  it("should generate an ID when none is given", async () => {
+    mocks.mockSuccessfulConnection();
+    const { result } = renderHook(() => useZMKDeviceManager(), { wrapper });
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    const id = await connectDevice(result.current, connectFunction);
+
+    expect(id).toBe("device-0");
+    expect(result.current.devices[id].isConnected).toBe(true);
+  });
+
+  it("should route notifications to the device they came from", async () => {
+    mockSplitKeyboard([{ keymap: { unsavedChangesStatusChanged: true } }]);
+    const { result } = renderHook(
+      () => ({
+        manager: useZMKDeviceManager(),
+        left: useZMKDevice("left"),
+        right: useZMKDevice("right"),
+      }),
+      { wrapper }
+    );
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    await connectDevice(result.current.manager, connectFunction, "left");
+    await connectDevice(result.current.manager, connectFunction, "right");
+
+    await waitFor(() => {
+      expect(result.current.left?.hasUnsavedChanges).toBe(true);
+    });
+    expect(result.current.right?.hasUnsavedChanges).toBe(false);
+  });
+
+  it("should disconnect and remove devices", async () => {
+    mocks.mockSuccessfulConnection();
+    const { result } = renderHook(
+      () => ({
+        manager: useZMKDeviceManager(),
+        device: useZMKDevice("main"),
+      }),
+      { wrapper }
+    );
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    await connectDevice(result.current.manager, connectFunction, "main");
+    act(() => {
+      result.current.manager.disconnect("main");
+    });
+    expect(result.current.device?.isConnected).toBe(false);
+    expect(result.current.manager.deviceIds).toEqual(["main"]);
+
+    act(() => {
+      result.current.manager.removeDevice("main");
+    });
+    expect(result.current.manager.deviceIds).toEqual([]);
+    expect(result.current.device).toBeNull();
+  });
+
+  it("should provide a device as ZMKAppContext", async () => {
+    mocks.mockSuccessfulConnection({ deviceName: "Macropad" });
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    function DeviceName() {
+      const zmkApp = useContext(ZMKAppContext);
+      return <div>{zmkApp?.state.deviceInfo?.name ?? "None"}</div>;
+    }
+    function Connect() {
+      const { connect } = useZMKDeviceManager();
+      return (
+        <button onClick={() => connect(connectFunction, "pad")}>Connect</button>
+      );
+    }
+
+    render(
+      <ZMKDeviceManagerProvider>
+        <Connect />
+        <ZMKDeviceProvider id="pad">
+          <DeviceName />
+        </ZMKDeviceProvider>
+      </ZMKDeviceManagerProvider>
+    );
+    expect(screen.getByText("None")).toBeDefined();
+
+    await act(async () => {
+      screen.getByText("Connect").click();
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText("Macropad")).toBeDefined();
+    });
+  });
+
+  it("should throw when used outside the provider", () => {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => renderHook(() => useZMKDeviceManager())).toThrow(
+      "useZMKDeviceManager must be used within ZMKDeviceManagerProvider"
+    );
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for ZMKNotificationHub
+ */
+
+import { ReadableStream } from "node:stream/web";
+import { ZMKNotificationHub } from "../src/ZMKNotificationHub";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+
+/**
+ * Connection whose notifications are pushed by the test
+ */
+function createConnection() {
+  let controller!: ReadableStreamDefaultController<unknown>;
+  const notification_readable = new ReadableStream({
+    start: (c) => {
+      controller = c as ReadableStreamDefaultController<unknown>;
+    },
+  });
+  const connection = { notification_readable } as unknown as RpcConnection;
+  return {
+    connection,
+    push: (notification: unknown) => controller.enqueue(notification),
+    end: () => controller.close(),
+    fail: (error: unknown) => controller.error(error),
+  };
+}
+
+/**
+ * Let queued promise callbacks run
+ */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("ZMKNotificationHub", () => {
+  it("should dispatch notifications by type", async () => {
+    const { connection, push } = createConnection();
+    const hub = new ZMKNotificationHub(connection);
+    const core = jest.fn();
+    const custom = jest.fn();
+    const other = jest.fn();
+    const any = jest.fn();
+    hub.subscribe({ type: "core", callback: core });
+    hub.subscribe({ type: "custom", subsystemIndex: 1, callback: custom });
+    hub.subscribe({ type: "custom", subsystemIndex: 2, callback: other });
+    hub.subscribe({ type: "any", callback: any });
+
+    const customNotification = { subsystemIndex: 1, payload: new Uint8Array() };
+    push({ core: { lockStateChanged: 1 } });
+    push({ custom: { customNotification } });
+    await flush();
+
+    expect(core).toHaveBeenCalledWith({ lockStateChanged: 1 });
+    expect(custom).toHaveBeenCalledWith(customNotification);
+    expect(other).not.toHaveBeenCalled();
+    expect(any).toHaveBeenCalledTimes(2);
+    hub.close();
+  });
+
+  it("should keep subscriptions and history when attaching another connection", async () => {
+    const first = createConnection();
+    const second = createConnection();
+    const hub = new ZMKNotificationHub(null, { history: 1 });
+    const callback = jest.fn();
+    hub.subscribe({ type: "keymap", callback });
+
+    const done = hub.attach(first.connection);
+    first.push({ keymap: { unsavedChangesStatusChanged: true } });
+    await flush();
+    hub.attach(second.connection);
+    await expect(done).resolves.toBeUndefined();
+
+    // The first connection is no longer read
+    first.push({ keymap: { unsavedChangesStatusChanged: false } });
+    second.push({ keymap: { unsavedChangesStatusChanged: false } });
+    await flush();
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    const late = jest.fn();
+    hub.subscribe({ type: "keymap", replay: "last", callback: late });
+    expect(late).toHaveBeenCalledWith({ unsavedChangesStatusChanged: false });
+    hub.close();
+  });
+
+  it("should resolve attach when the stream ends and reject when it fails", async () => {
+    const ended = createConnection();
+    const failed = createConnection();
+    const hub = new ZMKNotificationHub();
+
+    const done = hub.attach(ended.connection);
+    ended.end();
+    await expect(done).resolves.toBeUndefined();
+
+    const error = new Error("Device unplugged");
+    const reading = hub.attach(failed.connection);
+    failed.fail(error);
+    await expect(reading).rejects.toBe(error);
+  });
+
+  it("should release the stream when detached", async () => {
+    const { connection } = createConnection();
+    const hub = new ZMKNotificationHub(connection);
+
+    hub.detach();
+    await flush();
+
+    expect(connection.notification_readable.locked).toBe(false);
+  });
+
+  it("should stream notifications as an async iterator", async () => {
+    const { connection, push } = createConnection();
+    const hub = new ZMKNotificationHub(connection);
+    const stream = hub.stream({ type: "custom", subsystemIndex: 0 });
+
+    const notifications = [0, 1, 2].map((value) => ({
+      subsystemIndex: 0,
+      payload: new Uint8Array([value]),
+    }));
+    notifications.forEach((customNotification) =>
+      push({ custom: { customNotification } })
+    );
+
+    const received = [];
+    for await (const notification of stream) {
+      received.push(notification);
+      if (received.length === notifications.length) break;
+    }
+
+    expect(received).toEqual(notifications);
+    // Breaking out of the loop unsubscribes
+    push({ custom: { customNotification: notifications[0] } });
+    await flush();
+    await expect(stream.next()).resolves.toEqual({
+      done: true,
+      value: undefined,
+    });
+    hub.close();
+  });
+
+  it("should end streams when aborted or cleared", async () => {
+    const hub = new ZMKNotificationHub();
+    const controller = new AbortController();
+    const aborted = hub.stream({ type: "core" }, { signal: controller.signal });
+    const cleared = hub.stream({ type: "any" });
+
+    const pending = aborted.next();
+    controller.abort();
+    await expect(pending).resolves.toMatchObject({ done: true });
+
+    hub.clear();
+    await expect(cleared.next()).resolves.toMatchObject({ done: true });
+  });
+
+  it("should replay history to streams and subscribers", async () => {
+    const { connection, push } = createConnection();
+    const hub = new ZMKNotificationHub(connection, { history: 2 });
+    push({ core: { lockStateChanged: 0 } });
+    push({ core: { lockStateChanged: 1 } });
+    push({ core: { lockStateChanged: 0 } });
+    await flush();
+
+    const stream = hub.stream({ type: "core", replay: 5 });
+    await expect(stream.next()).resolves.toEqual({
+      done: false,
+      value: { lockStateChanged: 1 },
+    });
+    await expect(stream.next()).resolves.toEqual({
+      done: false,
+      value: { lockStateChanged: 0 },
+    });
+
+    hub.setHistory(0);
+    push({ core: { lockStateChanged: 1 } });
+    await flush();
+    const callback = jest.fn();
+    hub.subscribe({ type: "core", replay: "last", callback });
+    expect(callback).not.toHaveBeenCalled();
+    hub.close();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Tests for ZMKRequestScheduler
+ */
+
+import {
+  ZMKRequestScheduler,
+  getZMKRequestScheduler,
+} from "../src/ZMKRequestScheduler";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+
+/**
+ * Task that resolves when the test says so
+ */
+function deferredTask<T>(value: T) {
+  let resolve: () => void = () => {};
+  const task = jest.fn(
+    () =>
+      new Promise<T>((r) => {
+        resolve = () => r(value);
+      })
+  );
+  return { task, resolve: () => resolve() };
+}
+
+/**
+ * Let queued promise callbacks run
+ */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("ZMKRequestScheduler", () => {
+  it("should serialize requests by default", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const first = deferredTask("a");
+    const second = deferredTask("b");
+
+    const results = [
+      scheduler.schedule(first.task),
+      scheduler.schedule(second.task),
+    ];
+
+    expect(first.task).toHaveBeenCalled();
+    expect(second.task).not.toHaveBeenCalled();
+
+    first.resolve();
+    await flush();
+    expect(second.task).toHaveBeenCalled();
+
+    second.resolve();
+    await expect(Promise.all(results)).resolves.toEqual(["a", "b"]);
+  });
+
+  it("should run up to the concurrency limit in parallel", () => {
+    const scheduler = new ZMKRequestScheduler({ concurrency: 2 });
+    const tasks = [deferredTask(1), deferredTask(2), deferredTask(3)];
+
+    tasks.forEach(({ task }) => scheduler.schedule(task));
+
+    expect(tasks[0].task).toHaveBeenCalled();
+    expect(tasks[1].task).toHaveBeenCalled();
+    expect(tasks[2].task).not.toHaveBeenCalled();
+    expect(scheduler.getStats()).toEqual({
+      queued: 1,
+      queuedByPriority: { interactive: 1, background: 0 },
+      inFlight: 2,
+    });
+  });
+
+  it("should run interactive requests before background ones", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const order: string[] = [];
+    const blocker = deferredTask("blocker");
+    const track = (name: string) => async () => {
+      order.push(name);
+    };
+
+    scheduler.schedule(blocker.task);
+    const done = Promise.all([
+      scheduler.schedule(track("poll 1"), { priority: "background" }),
+      scheduler.schedule(track("poll 2"), { priority: "background" }),
+      scheduler.schedule(track("click 1")),
+      scheduler.schedule(track("click 2"), { priority: "interactive" }),
+    ]);
+    expect(scheduler.getStats().queuedByPriority).toEqual({
+      interactive: 2,
+      background: 2,
+    });
+
+    blocker.resolve();
+    await done;
+
+    expect(order).toEqual(["click 1", "click 2", "poll 1", "poll 2"]);
+  });
+
+  it("should coalesce requests with the same key", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const shared = deferredTask("settings");
+
+    const first = scheduler.schedule(shared.task, { key: "get" });
+    const second = scheduler.schedule(shared.task, { key: "get" });
+    shared.resolve();
+
+    await expect(first).resolves.toBe("settings");
+    await expect(second).resolves.toBe("settings");
+    expect(shared.task).toHaveBeenCalledTimes(1);
+
+    // Settled requests are not reused
+    const again = deferredTask("fresh");
+    const third = scheduler.schedule(again.task, { key: "get" });
+    again.resolve();
+    await expect(third).resolves.toBe("fresh");
+  });
+
+  it("should drop queued requests when their signal aborts", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const blocker = deferredTask("blocker");
+    const queued = deferredTask("queued");
+    const controller = new AbortController();
+
+    scheduler.schedule(blocker.task);
+    const pending = scheduler.schedule(queued.task, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(scheduler.getStats().queued).toBe(0);
+
+    blocker.resolve();
+    await flush();
+    expect(queued.task).not.toHaveBeenCalled();
+  });
+
+  it("should let each coalesced caller abort on its own", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const blocker = deferredTask("blocker");
+    const shared = deferredTask("settings");
+    const first = new AbortController();
+    const second = new AbortController();
+
+    scheduler.schedule(blocker.task);
+    const aborted = scheduler.schedule(shared.task, {
+      key: "get",
+      signal: first.signal,
+    });
+    const kept = scheduler.schedule(shared.task, {
+      key: "get",
+      signal: second.signal,
+    });
+    first.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    expect(scheduler.getStats().queued).toBe(1);
+
+    blocker.resolve();
+    await flush();
+    shared.resolve();
+    await expect(kept).resolves.toBe("settings");
+    expect(shared.task).toHaveBeenCalledTimes(1);
+
+    // Dropped once every caller has aborted
+    const late = new AbortController();
+    scheduler.schedule(blocker.task);
+    const dropped = scheduler.schedule(shared.task, {
+      key: "get",
+      signal: late.signal,
+    });
+    late.abort();
+    await expect(dropped).rejects.toMatchObject({ name: "AbortError" });
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+
+  it("should keep going after a request fails", async () => {
+    const scheduler = new ZMKRequestScheduler();
+
+    const failed = scheduler.schedule(() => Promise.reject(new Error("boom")));
+    const next = scheduler.schedule(async () => "ok");
+
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("ok");
+    expect(scheduler.getStats().inFlight).toBe(0);
+  });
+
+  it("should report queue changes to subscribers", async () => {
+    const scheduler = new ZMKRequestScheduler();
+    const listener = jest.fn();
+    const unsubscribe = scheduler.subscribe(listener);
+
+    await scheduler.schedule(async () => "done");
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ inFlight: 1 })
+    );
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ queued: 0, inFlight: 0 })
+    );
+
+    unsubscribe();
+    listener.mockClear();
+    await scheduler.schedule(async () => "again");
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("getZMKRequestScheduler", () => {
+  it("should return one scheduler per connection", () => {
+    const a = {} as RpcConnection;
+    const b = {} as RpcConnection;
+
+    expect(getZMKRequestScheduler(a)).toBe(getZMKRequestScheduler(a));
+    expect(getZMKRequestScheduler(a)).not.toBe(getZMKRequestScheduler(b));
+  });
+});
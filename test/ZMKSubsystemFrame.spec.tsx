@@ -0,0 +1,212 @@
+/**
+ * Tests for ZMKSubsystemFrame component
+ */
+
+import React from "react";
+import { render, screen, act } from "@testing-library/react";
+import { ZMKSubsystemFrame } from "../src/ZMKSubsystemFrame";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+const UI_ORIGIN = "https://ui.example.com";
+
+function connectedApp() {
+  return createConnectedMockZMKApp({
+    subsystems: [
+      {
+        index: 3,
+        identifier: "settings",
+        uiUrl: ["https://untrusted.example.com/ui", `${UI_ORIGIN}/settings`],
+      },
+    ],
+  });
+}
+
+function renderFrame(zmkApp: UseZMKAppReturn) {
+  render(
+    <ZMKAppProvider value={zmkApp}>
+      <ZMKSubsystemFrame
+        identifier="settings"
+        allowedOrigins={[UI_ORIGIN]}
+        fallback={<div>No UI</div>}
+      />
+    </ZMKAppProvider>
+  );
+  const iframe = screen.queryByTitle("settings") as HTMLIFrameElement | null;
+  const frameWindow = iframe?.contentWindow ?? null;
+  const postMessage = frameWindow
+    ? jest.spyOn(frameWindow, "postMessage").mockImplementation(() => {})
+    : null;
+  return { iframe, frameWindow, postMessage };
+}
+
+/**
+ * Dispatch a message event as if sent by the given window
+ */
+function sendMessage(data: unknown, source: Window | null, origin: string) {
+  act(() => {
+    window.dispatchEvent(new MessageEvent("message", { data, source, origin }));
+  });
+}
+
+function flush() {
+  return act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+}
+
+describe("ZMKSubsystemFrame", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should render the fallback when not connected", () => {
+    const { iframe } = renderFrame(createMockZMKApp());
+
+    expect(iframe).toBeNull();
+    expect(screen.getByText("No UI")).toBeDefined();
+  });
+
+  it("should render the fallback when no UI URL is allowed", () => {
+    const zmkApp = createConnectedMockZMKApp({
+      subsystems: [
+        {
+          index: 0,
+          identifier: "settings",
+          uiUrl: ["https://untrusted.example.com/ui"],
+        },
+      ],
+    });
+    const { iframe } = renderFrame(zmkApp);
+
+    expect(iframe).toBeNull();
+    expect(screen.getByText("No UI")).toBeDefined();
+  });
+
+  it("should load the first allowed UI URL in a sandboxed iframe", () => {
+    const { iframe } = renderFrame(connectedApp());
+
+    expect(iframe?.getAttribute("src")).toBe(`${UI_ORIGIN}/settings`);
+    expect(iframe?.getAttribute("sandbox")).toBe(
+      "allow-scripts allow-same-origin allow-forms"
+    );
+  });
+
+  it("should only load a UI on the host's origin when allowed", () => {
+    const hostOrigin = window.location.origin;
+    const zmkApp = createConnectedMockZMKApp({
+      subsystems: [
+        { index: 0, identifier: "settings", uiUrl: [`${hostOrigin}/ui`] },
+      ],
+    });
+    const frame = (allowHostOrigin?: boolean) => (
+      <ZMKAppProvider value={zmkApp}>
+        <ZMKSubsystemFrame
+          identifier="settings"
+          allowedOrigins={[hostOrigin]}
+          allowHostOrigin={allowHostOrigin}
+          fallback={<div>No UI</div>}
+        />
+      </ZMKAppProvider>
+    );
+
+    const { rerender } = render(frame());
+    expect(screen.queryByTitle("settings")).toBeNull();
+
+    rerender(frame(true));
+    expect(screen.getByTitle("settings").getAttribute("src")).toBe(
+      `${hostOrigin}/ui`
+    );
+  });
+
+  it("should answer call requests from the frame", async () => {
+    const zmkApp = connectedApp();
+    const response = new Uint8Array([7]);
+    call_rpc.mockResolvedValue({ custom: { call: { payload: response } } });
+    const { frameWindow, postMessage } = renderFrame(zmkApp);
+
+    const payload = new Uint8Array([1, 2]);
+    sendMessage(
+      { type: "zmk-subsystem:call", id: 1, payload },
+      frameWindow,
+      UI_ORIGIN
+    );
+    await flush();
+
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      custom: { call: { subsystemIndex: 3, payload } },
+    });
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: "zmk-subsystem:response", id: 1, payload: response },
+      UI_ORIGIN
+    );
+  });
+
+  it("should report failed calls to the frame", async () => {
+    call_rpc.mockRejectedValue({ condition: 1 });
+    const { frameWindow, postMessage } = renderFrame(connectedApp());
+
+    sendMessage(
+      { type: "zmk-subsystem:call", id: "a", payload: new Uint8Array([1]) },
+      frameWindow,
+      UI_ORIGIN
+    );
+    await flush();
+
+    expect(postMessage).toHaveBeenCalledWith(
+      {
+        type: "zmk-subsystem:error",
+        id: "a",
+        error: {
+          name: "ZMKCustomSubsystemError",
+          message: "Device is locked",
+          type: "unlockRequired",
+          code: 1,
+        },
+      },
+      UI_ORIGIN
+    );
+  });
+
+  it("should ignore messages from other origins or windows", async () => {
+    const { frameWindow } = renderFrame(connectedApp());
+    const request = {
+      type: "zmk-subsystem:call",
+      id: 1,
+      payload: new Uint8Array([1]),
+    };
+
+    sendMessage(request, frameWindow, "https://untrusted.example.com");
+    sendMessage(request, window, UI_ORIGIN);
+    sendMessage({ ...request, payload: "not bytes" }, frameWindow, UI_ORIGIN);
+    await flush();
+
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should forward subsystem notifications to the frame", () => {
+    const zmkApp = connectedApp();
+    const { postMessage } = renderFrame(zmkApp);
+
+    const subscription = (zmkApp.onNotification as jest.Mock).mock.calls[0][0];
+    expect(subscription).toMatchObject({ type: "custom", subsystemIndex: 3 });
+    const payload = new Uint8Array([9]);
+    act(() => {
+      subscription.callback({ subsystemIndex: 3, payload });
+    });
+
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: "zmk-subsystem:notification", payload },
+      UI_ORIGIN
+    );
+  });
+});
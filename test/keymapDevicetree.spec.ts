@@ -0,0 +1,213 @@
+/**
+ * Tests for the keymap devicetree generator
+ */
+
+import {
+  generateKeymapDevicetree,
+  ZMKKeymapDevicetreeError,
+} from "../src/keymapDevicetree";
+import { normalizePhysicalLayout } from "../src/usePhysicalLayouts";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const KEY = [
+  { name: "Key", hidUsage: { keyboardMax: 0xff, consumerMax: 0xfff } },
+];
+const LAYER = [{ name: "Layer", layerId: {} }];
+
+const BEHAVIORS = [
+  {
+    id: 1,
+    displayName: "Key Press",
+    metadata: [{ param1: KEY, param2: [] }],
+  },
+  {
+    id: 2,
+    displayName: "Momentary Layer",
+    metadata: [{ param1: LAYER, param2: [] }],
+  },
+  {
+    id: 3,
+    displayName: "Layer-Tap",
+    metadata: [{ param1: LAYER, param2: KEY }],
+  },
+  {
+    id: 4,
+    displayName: "Mod-Tap",
+    metadata: [{ param1: KEY, param2: KEY }],
+  },
+  { id: 5, displayName: "Bluetooth", metadata: [] },
+  { id: 6, displayName: "Transparent", metadata: [] },
+  {
+    id: 7,
+    displayName: "Home Row Mod",
+    metadata: [{ param1: KEY, param2: KEY }],
+  },
+  { id: 8, displayName: "Custom Macro", metadata: [] },
+];
+
+function binding(behaviorId: number, param1 = 0, param2 = 0) {
+  return { behaviorId, param1, param2 };
+}
+
+function createKeymap() {
+  return {
+    layers: [
+      {
+        id: 3,
+        name: "Base",
+        bindings: [
+          binding(1, 0x70004),
+          binding(1, 0x02070005), // LS(B)
+          binding(2, 8),
+          binding(3, 8, 0x7002c),
+        ],
+      },
+      {
+        id: 8,
+        name: "Lower",
+        bindings: [
+          binding(4, 0x700e1, 0x7002a),
+          binding(1, 0x0c00e9),
+          binding(5, 3, 2),
+          binding(5, 1),
+        ],
+      },
+    ],
+    availableLayers: 0,
+    maxLayerNameLength: 16,
+  };
+}
+
+describe("generateKeymapDevicetree", () => {
+  it("should generate a keymap node with labelled bindings", () => {
+    expect(generateKeymapDevicetree(createKeymap(), BEHAVIORS)).toBe(
+      [
+        "#include <behaviors.dtsi>",
+        "#include <dt-bindings/zmk/keys.h>",
+        "#include <dt-bindings/zmk/bt.h>",
+        "#include <dt-bindings/zmk/outputs.h>",
+        "",
+        "/ {",
+        "    keymap {",
+        '        compatible = "zmk,keymap";',
+        "",
+        "        base_layer {",
+        '            display-name = "Base";',
+        "            bindings = <",
+        "                &kp A &kp LS(B) &mo 1 &lt 1 SPACE",
+        "            >;",
+        "        };",
+        "",
+        "        lower_layer {",
+        '            display-name = "Lower";',
+        "            bindings = <",
+        "                &mt LSHFT BSPC &kp C_VOL_UP &bt BT_SEL 2 &bt BT_NXT",
+        "            >;",
+        "        };",
+        "    };",
+        "};",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should use configured labels and metadata for other behaviors", () => {
+    const keymap = {
+      ...createKeymap(),
+      layers: [
+        {
+          id: 0,
+          name: "",
+          bindings: [
+            binding(7, 0x700e3, 0x70004),
+            binding(8),
+            binding(8, 5),
+            binding(6),
+            binding(1, 0x7ffff),
+          ],
+        },
+      ],
+    };
+
+    const source = generateKeymapDevicetree(keymap, BEHAVIORS, {
+      labels: { "home row mod": "&hm" },
+      includes: false,
+    });
+
+    expect(source.startsWith("/ {")).toBe(true);
+    expect(source).toContain("        layer_0 {\n            bindings = <");
+    expect(source).toContain(
+      "&hm LGUI A &custom_macro &custom_macro 5 &trans &kp 0x7ffff"
+    );
+  });
+
+  it("should break lines by layout rows or key count", () => {
+    const layout = normalizePhysicalLayout({
+      name: "Default",
+      keys: [0, 100, 200, 300].map((x, i) => ({
+        x,
+        y: i < 3 ? 0 : 100,
+        width: 100,
+        height: 100,
+        r: 0,
+        rx: 0,
+        ry: 0,
+      })),
+    });
+
+    const byLayout = generateKeymapDevicetree(createKeymap(), BEHAVIORS, {
+      layout,
+    });
+    expect(byLayout).toContain(
+      "                &kp A &kp LS(B) &mo 1\n                &lt 1 SPACE\n"
+    );
+
+    const byCount = generateKeymapDevicetree(createKeymap(), BEHAVIORS, {
+      keysPerRow: 2,
+    });
+    expect(byCount).toContain(
+      "                &kp A &kp LS(B)\n                &mo 1 &lt 1 SPACE\n"
+    );
+  });
+
+  it("should make layer node names unique and valid", () => {
+    const keymap = {
+      ...createKeymap(),
+      layers: [
+        { id: 0, name: "Nav", bindings: [] },
+        { id: 1, name: "nav", bindings: [] },
+        { id: 2, name: '2 "Fn" layer', bindings: [] },
+      ],
+    };
+
+    const source = generateKeymapDevicetree(keymap, BEHAVIORS);
+
+    expect(source).toContain("        nav_layer {");
+    expect(source).toContain("        nav_layer_1 {");
+    expect(source).toContain("        layer_2_fn_layer {");
+    expect(source).toContain('display-name = "2 \\"Fn\\" layer";');
+  });
+
+  it("should reject bindings with unknown behaviors", () => {
+    const keymap = createKeymap();
+    keymap.layers[0].bindings[0] = binding(99);
+
+    expect(() => generateKeymapDevicetree(keymap, BEHAVIORS)).toThrow(
+      "Layer 0 key 0 uses unknown behavior 99"
+    );
+    expect(() => generateKeymapDevicetree(keymap, BEHAVIORS)).toThrow(
+      expect.objectContaining({
+        name: "ZMKKeymapDevicetreeError",
+        layerIndex: 0,
+        keyPosition: 0,
+      })
+    );
+    expect(() => generateKeymapDevicetree(keymap, BEHAVIORS)).toThrow(
+      ZMKKeymapDevicetreeError
+    );
+  });
+});
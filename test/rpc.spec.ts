@@ -0,0 +1,93 @@
+/**
+ * Tests for RPC helpers
+ */
+
+import { callZMKRPC, isUnlockRequiredError, ZMKLockedError } from "../src/rpc";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+
+// Mock the call_rpc function
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+/**
+ * Mimics MetaError thrown by call_rpc for meta error responses
+ */
+class FakeMetaError extends Error {
+  constructor(public condition: number) {
+    super("Meta error: " + condition);
+  }
+}
+
+describe("callZMKRPC", () => {
+  const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+  const connection = { label: "test" } as unknown as RpcConnection;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should send the request and return the response", async () => {
+    const response = { core: { getLockState: 1 } };
+    (call_rpc as jest.Mock).mockResolvedValue(response);
+
+    const result = await callZMKRPC(connection, {
+      core: { getLockState: true },
+    });
+
+    expect(call_rpc).toHaveBeenCalledWith(connection, {
+      core: { getLockState: true },
+    });
+    expect(result).toBe(response);
+  });
+
+  it("should reject with ZMKLockedError on UNLOCK_REQUIRED", async () => {
+    // ErrorConditions.UNLOCK_REQUIRED
+    (call_rpc as jest.Mock).mockRejectedValue(new FakeMetaError(1));
+
+    await expect(
+      callZMKRPC(connection, { keymap: { getKeymap: true } })
+    ).rejects.toBeInstanceOf(ZMKLockedError);
+  });
+
+  it("should propagate other meta errors", async () => {
+    // ErrorConditions.RPC_NOT_FOUND
+    const error = new FakeMetaError(2);
+    (call_rpc as jest.Mock).mockRejectedValue(error);
+
+    await expect(
+      callZMKRPC(connection, { keymap: { getKeymap: true } })
+    ).rejects.toBe(error);
+  });
+
+  it("should time out", async () => {
+    (call_rpc as jest.Mock).mockImplementation(() => new Promise(() => {}));
+
+    await expect(
+      callZMKRPC(connection, { core: { getDeviceInfo: true } }, 100)
+    ).rejects.toThrow("Operation timed out");
+  });
+});
+
+describe("isUnlockRequiredError", () => {
+  it("should detect unlock required errors", () => {
+    expect(isUnlockRequiredError(new FakeMetaError(1))).toBe(true);
+    expect(isUnlockRequiredError(new ZMKLockedError())).toBe(true);
+  });
+
+  it("should ignore other errors", () => {
+    expect(isUnlockRequiredError(new FakeMetaError(0))).toBe(false);
+    expect(isUnlockRequiredError(new Error("nope"))).toBe(false);
+    expect(isUnlockRequiredError("No response")).toBe(false);
+    expect(isUnlockRequiredError(null)).toBe(false);
+  });
+});
+
+describe("ZMKLockedError", () => {
+  it("should have a default message and name", () => {
+    const error = new ZMKLockedError();
+    expect(error.name).toBe("ZMKLockedError");
+    expect(error.message).toBe("Device is locked");
+    expect(error instanceof Error).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for ConnectionResource
+ */
+
+import {
+  ConnectionResource,
+  getConnectionResource,
+} from "../src/useConnectionResource";
+import type { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const connection = {} as RpcConnection;
+const logger = { error: jest.fn() };
+
+/**
+ * Fetcher whose calls resolve or reject when the test says so
+ */
+function deferredFetcher() {
+  const calls: Array<{
+    resolve: (value: string) => void;
+    reject: (err: Error) => void;
+  }> = [];
+  const fetcher = jest.fn(
+    () =>
+      new Promise<string>((resolve, reject) => {
+        calls.push({ resolve, reject });
+      })
+  );
+  return { fetcher, calls };
+}
+
+describe("ConnectionResource", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only keep the result of the latest fetch", async () => {
+    const { fetcher, calls } = deferredFetcher();
+    const resource = new ConnectionResource(connection, fetcher, "Failed");
+
+    const first = resource.refresh(logger);
+    const second = resource.refresh(logger);
+    calls[1].resolve("new");
+    await second;
+    calls[0].resolve("old");
+    await first;
+
+    expect(resource.getState()).toEqual({
+      value: "new",
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it("should log failures and keep the previous value", async () => {
+    const { fetcher, calls } = deferredFetcher();
+    const resource = new ConnectionResource(connection, fetcher, "Failed");
+    resource.update(() => "kept");
+
+    const error = new Error("boom");
+    const pending = resource.refresh(logger);
+    calls[0].reject(error);
+    await pending;
+
+    expect(resource.getState()).toEqual({
+      value: "kept",
+      isLoading: false,
+      error,
+    });
+    expect(logger.error).toHaveBeenCalledWith("Failed", error);
+  });
+
+  it("should not load again while loading or loaded", async () => {
+    const { fetcher, calls } = deferredFetcher();
+    const resource = new ConnectionResource(connection, fetcher, "Failed");
+
+    resource.load(logger);
+    resource.load(logger);
+    calls[0].resolve("value");
+    await Promise.resolve();
+    resource.load(logger);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should notify listeners until they unsubscribe", () => {
+    const resource = new ConnectionResource(connection, jest.fn(), "Failed");
+    const listener = jest.fn();
+
+    const unsubscribe = resource.subscribe(listener);
+    resource.update(() => "a");
+    unsubscribe();
+    resource.update(() => "b");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run a retained effect once while it has users", () => {
+    const resource = new ConnectionResource(connection, jest.fn(), "Failed");
+    const stop = jest.fn();
+    const start = jest.fn(() => stop);
+
+    const releaseFirst = resource.retain(start);
+    const releaseSecond = resource.retain(start);
+    releaseFirst();
+    releaseFirst();
+    expect(stop).not.toHaveBeenCalled();
+    releaseSecond();
+
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one resource per connection and name", () => {
+    const other = {} as RpcConnection;
+    const fetcher = jest.fn();
+
+    const resource = getConnectionResource(connection, "a", fetcher, "Failed");
+
+    expect(getConnectionResource(connection, "a", fetcher, "Failed")).toBe(
+      resource
+    );
+    expect(getConnectionResource(connection, "b", fetcher, "Failed")).not.toBe(
+      resource
+    );
+    expect(getConnectionResource(other, "a", fetcher, "Failed")).not.toBe(
+      resource
+    );
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for usePhysicalLayouts hook
+ */
+
+import React from "react";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import {
+  usePhysicalLayouts,
+  normalizePhysicalLayout,
+} from "../src/usePhysicalLayouts";
+import { useZMKKeymap, ZMKKeymapError } from "../src/useZMKKeymap";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+function createPhysicalLayouts() {
+  return {
+    activeLayoutIndex: 0,
+    layouts: [
+      {
+        name: "Default",
+        keys: [
+          { x: 0, y: 0, width: 100, height: 100, r: 0, rx: 0, ry: 0 },
+          { x: 100, y: 0, width: 150, height: 100, r: 0, rx: 0, ry: 0 },
+        ],
+      },
+      {
+        name: "Split Space",
+        keys: [{ x: 0, y: 0, width: 200, height: 100, r: 0, rx: 0, ry: 0 }],
+      },
+    ],
+  };
+}
+
+function renderLayoutsHook(zmkApp: UseZMKAppReturn) {
+  return renderHook(() => usePhysicalLayouts(), {
+    wrapper: ({ children }) => (
+      <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+    ),
+  });
+}
+
+describe("normalizePhysicalLayout", () => {
+  it("should convert centi-units to key units", () => {
+    const layout = normalizePhysicalLayout({
+      name: "Test",
+      keys: [
+        { x: 125, y: 50, width: 150, height: 200, r: 1500, rx: 200, ry: 100 },
+      ],
+    });
+
+    expect(layout.name).toBe("Test");
+    expect(layout.keys[0]).toEqual({
+      x: 1.25,
+      y: 0.5,
+      w: 1.5,
+      h: 2,
+      rotation: 15,
+      rx: 2,
+      ry: 1,
+    });
+  });
+
+  it("should compute the bounding box of unrotated keys", () => {
+    const layout = normalizePhysicalLayout(createPhysicalLayouts().layouts[0]);
+
+    expect(layout.width).toBe(2.5);
+    expect(layout.height).toBe(1);
+  });
+
+  it("should include rotation in the bounding box", () => {
+    // 1u key rotated 90 degrees around its top-left corner at (1, 0)
+    const layout = normalizePhysicalLayout({
+      name: "Rotated",
+      keys: [
+        { x: 100, y: 0, width: 100, height: 100, r: 9000, rx: 100, ry: 0 },
+      ],
+    });
+
+    expect(layout.width).toBeCloseTo(1);
+    expect(layout.height).toBeCloseTo(1);
+  });
+
+  it("should handle layouts without keys", () => {
+    expect(normalizePhysicalLayout({ name: "Empty", keys: [] })).toEqual({
+      name: "Empty",
+      keys: [],
+      width: 0,
+      height: 0,
+    });
+  });
+});
+
+describe("usePhysicalLayouts", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    call_rpc.mockReset();
+  });
+
+  it("should stay empty when not connected", () => {
+    const { result } = renderLayoutsHook(createMockZMKApp());
+
+    expect(result.current.layouts).toEqual([]);
+    expect(result.current.activeIndex).toBeNull();
+    expect(result.current.activeLayout).toBeNull();
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should load layouts when connected", async () => {
+    call_rpc.mockResolvedValueOnce({
+      keymap: { getPhysicalLayouts: createPhysicalLayouts() },
+    });
+    const zmkApp = createConnectedMockZMKApp();
+    const { result, rerender } = renderLayoutsHook(zmkApp);
+
+    await waitFor(() => {
+      expect(result.current.layouts).toHaveLength(2);
+    });
+    const { layouts } = result.current;
+    rerender();
+    expect(result.current.layouts).toBe(layouts);
+
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      keymap: { getPhysicalLayouts: true },
+    });
+    expect(result.current.activeIndex).toBe(0);
+    expect(result.current.activeLayout?.name).toBe("Default");
+    expect(result.current.activeLayout?.keys[1].w).toBe(1.5);
+  });
+
+  it("should select a layout and show the remapped keymap", async () => {
+    const keymap = { layers: [], availableLayers: 4, maxLayerNameLength: 16 };
+    const remapped = { ...keymap, availableLayers: 3 };
+    call_rpc.mockImplementation(
+      async (_connection: unknown, request: { keymap: object }) => {
+        if ("getPhysicalLayouts" in request.keymap) {
+          return { keymap: { getPhysicalLayouts: createPhysicalLayouts() } };
+        }
+        if ("getKeymap" in request.keymap) {
+          return { keymap: { getKeymap: keymap } };
+        }
+        return { keymap: { setActivePhysicalLayout: { ok: remapped } } };
+      }
+    );
+    const zmkApp = createConnectedMockZMKApp();
+    // Rendered separately: the layout hook is not given the keymap hook
+    const keymapHook = renderHook(() => useZMKKeymap(), {
+      wrapper: ({ children }) => (
+        <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+      ),
+    });
+    const { result } = renderLayoutsHook(zmkApp);
+    await waitFor(() => expect(result.current.layouts).toHaveLength(2));
+    await waitFor(() => expect(keymapHook.result.current.keymap).toBe(keymap));
+
+    await act(async () => {
+      await expect(result.current.selectLayout(1)).resolves.toBe(remapped);
+    });
+
+    expect(call_rpc).toHaveBeenLastCalledWith(expect.anything(), {
+      keymap: { setActivePhysicalLayout: 1 },
+    });
+    expect(result.current.activeIndex).toBe(1);
+    expect(result.current.activeLayout?.name).toBe("Split Space");
+    expect(keymapHook.result.current.keymap).toBe(remapped);
+  });
+
+  it("should reject with ZMKKeymapError when the layout is invalid", async () => {
+    call_rpc.mockResolvedValueOnce({
+      keymap: { getPhysicalLayouts: createPhysicalLayouts() },
+    });
+    const { result } = renderLayoutsHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.layouts).toHaveLength(2));
+
+    // SET_ACTIVE_PHYSICAL_LAYOUT_ERR_INVALID_LAYOUT_INDEX
+    call_rpc.mockResolvedValueOnce({
+      keymap: { setActivePhysicalLayout: { err: 2 } },
+    });
+
+    let error: unknown;
+    await act(async () => {
+      await result.current.selectLayout(5).catch((e) => (error = e));
+    });
+
+    expect(error).toBeInstanceOf(ZMKKeymapError);
+    expect(error).toMatchObject({
+      operation: "setActivePhysicalLayout",
+      code: 2,
+    });
+    expect(result.current.activeIndex).toBe(0);
+  });
+
+  it("should expose fetch errors", async () => {
+    call_rpc.mockRejectedValueOnce(new Error("boom"));
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { result } = renderLayoutsHook(createConnectedMockZMKApp());
+
+    await waitFor(() => {
+      expect(result.current.error).toBeInstanceOf(ZMKKeymapError);
+    });
+    expect(result.current.error).toMatchObject({
+      operation: "getPhysicalLayouts",
+    });
+    spy.mockRestore();
+  });
+});
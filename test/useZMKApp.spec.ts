@@ -2,8 +2,11 @@
  * Tests for useZMKApp hook
  */
 
+import { StrictMode } from "react";
 import { renderHook, waitFor, act } from "@testing-library/react";
-import { useZMKApp } from "../src/useZMKApp";
+import { useZMKApp, ZMKConnectionError } from "../src/useZMKApp";
+import { ZMKKeymapError } from "../src/useZMKKeymap";
+import { getConnectionSignal, ZMKLockedError } from "../src/rpc";
 import { 
   setupZMKMocks, 
   createMockTransport,
@@ -151,7 +154,11 @@ describe("useZMKApp", () => {
     expect(result.current.isConnected).toBe(true);
 
     const found = result.current.findSubsystem("another-subsystem");
-    expect(found).toMatchObject({ index: 1, identifier: "another-subsystem" });
+    expect(found).toEqual({
+      index: 1,
+      identifier: "another-subsystem",
+      uiUrl: [],
+    });
 
     const notFound = result.current.findSubsystem("non-existent");
     expect(notFound).toBeNull();
@@ -263,6 +270,25 @@ describe("useZMKApp", () => {
     expect(abortSignal.aborted).toBe(true);
   });
 
+  it("should register the connection's AbortSignal for RPC helpers", async () => {
+    const { result } = renderHook(() => useZMKApp());
+    mocks.mockSuccessfulConnection();
+    const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+    await act(async () => {
+      await result.current.connect(connectFunction);
+    });
+
+    const connection = result.current.state.connection!;
+    const signal = getConnectionSignal(connection);
+    expect(signal).toBe(mocks.create_rpc_connection.mock.calls[0][1]?.signal);
+
+    act(() => {
+      result.current.disconnect();
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
   it("should handle core notifications", async () => {
     const { result } = renderHook(() => useZMKApp());
 
@@ -405,4 +431,923 @@ describe("useZMKApp", () => {
 
     consoleSpy.mockRestore();
   });
+
+  describe("unsaved changes", () => {
+    it("should seed hasUnsavedChanges from checkUnsavedChanges on connect", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ hasUnsavedChanges: true });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(mocks.call_rpc).toHaveBeenCalledWith(expect.anything(), {
+        keymap: { checkUnsavedChanges: true },
+      });
+      expect(result.current.hasUnsavedChanges).toBe(true);
+      expect(result.current.state.hasUnsavedChanges).toBe(true);
+    });
+
+    it("should track unsavedChangesStatusChanged notifications", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({
+        notifications: [{ keymap: { unsavedChangesStatusChanged: true } }],
+      });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      await waitFor(() => {
+        expect(result.current.hasUnsavedChanges).toBe(true);
+      });
+    });
+
+    it("should save changes and clear the flag", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ hasUnsavedChanges: true });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      mocks.call_rpc.mockResolvedValueOnce({
+        keymap: { saveChanges: { ok: true } },
+      });
+
+      await act(async () => {
+        await result.current.saveChanges();
+      });
+
+      expect(mocks.call_rpc).toHaveBeenLastCalledWith(expect.anything(), {
+        keymap: { saveChanges: true },
+      });
+      expect(result.current.hasUnsavedChanges).toBe(false);
+    });
+
+    it("should reject with ZMKKeymapError when saving fails", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ hasUnsavedChanges: true });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      // SAVE_CHANGES_ERR_NO_SPACE
+      mocks.call_rpc.mockResolvedValueOnce({
+        keymap: { saveChanges: { err: 3 } },
+      });
+
+      let error: unknown;
+      await act(async () => {
+        await result.current.saveChanges().catch((e) => (error = e));
+      });
+
+      expect(error).toBeInstanceOf(ZMKKeymapError);
+      expect(error).toMatchObject({ operation: "saveChanges", code: 3 });
+      expect(result.current.hasUnsavedChanges).toBe(true);
+    });
+
+    it("should discard changes and clear the flag", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ hasUnsavedChanges: true });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      mocks.call_rpc.mockResolvedValueOnce({
+        keymap: { discardChanges: true },
+      });
+
+      await act(async () => {
+        await result.current.discardChanges();
+      });
+
+      expect(result.current.hasUnsavedChanges).toBe(false);
+    });
+
+    it("should reject saveChanges when not connected", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      await expect(result.current.saveChanges()).rejects.toThrow(
+        "Not connected to a device"
+      );
+    });
+  });
+
+  describe("lock state", () => {
+    it("should fetch lock state on connect", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ lockState: 1 });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(mocks.call_rpc).toHaveBeenCalledWith(expect.anything(), {
+        core: { getLockState: true },
+      });
+      expect(result.current.state.lockState).toBe(1);
+    });
+
+    it("should skip unsaved changes check while locked", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({ lockState: 0 });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(result.current.state.lockState).toBe(0);
+      expect(mocks.call_rpc).not.toHaveBeenCalledWith(expect.anything(), {
+        keymap: { checkUnsavedChanges: true },
+      });
+    });
+
+    it("should update lock state from notifications", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection({
+        lockState: 0,
+        notifications: [{ core: { lockStateChanged: 1 } }],
+      });
+      mocks.call_rpc.mockResolvedValueOnce({
+        keymap: { checkUnsavedChanges: true },
+      });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      await waitFor(() => {
+        expect(result.current.state.lockState).toBe(1);
+      });
+      // Unlocking re-checks unsaved changes
+      await waitFor(() => {
+        expect(result.current.hasUnsavedChanges).toBe(true);
+      });
+    });
+
+    it("should reject saveChanges with ZMKLockedError when locked", async () => {
+      const { result } = renderHook(() => useZMKApp());
+
+      mocks.mockSuccessfulConnection();
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      // MetaError with ErrorConditions.UNLOCK_REQUIRED
+      mocks.call_rpc.mockRejectedValueOnce(
+        Object.assign(new Error("Meta error: 1"), { condition: 1 })
+      );
+
+      await expect(result.current.saveChanges()).rejects.toBeInstanceOf(
+        ZMKLockedError
+      );
+    });
+  });
+
+  describe("reconnect", () => {
+    /**
+     * Queue a connection whose notification stream fails on first read
+     */
+    function mockLostConnection() {
+      const reader = {
+        read: jest.fn().mockRejectedValue(new Error("Device lost")),
+        releaseLock: jest.fn(),
+      };
+      const connection = createMockConnection();
+      connection.notification_readable.getReader = jest
+        .fn()
+        .mockReturnValue(reader);
+      mocks.create_rpc_connection.mockReturnValueOnce(connection);
+      return connection;
+    }
+
+    let consoleSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    it("should reconnect and keep notification subscriptions", async () => {
+      const { result } = renderHook(() =>
+        useZMKApp({ reconnect: { maxAttempts: 3, backoffMs: 5 } })
+      );
+
+      mockLostConnection();
+      mocks.mockSuccessfulConnection();
+      const { connection: restored } = mocks.mockSuccessfulConnection({
+        notifications: [{ keymap: { unsavedChangesStatusChanged: true } }],
+      });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      const keymapCallback = jest.fn();
+      act(() => {
+        result.current.onNotification({
+          type: "keymap",
+          callback: keymapCallback,
+        });
+      });
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      await waitFor(() => {
+        expect(result.current.state.connection).toBe(restored);
+      });
+      expect(connectFunction).toHaveBeenCalledTimes(2);
+      expect(result.current.state.status).toEqual({ type: "connected" });
+      await waitFor(() => {
+        expect(keymapCallback).toHaveBeenCalledWith({
+          unsavedChangesStatusChanged: true,
+        });
+      });
+    });
+
+    it("should remove the backoff abort listener once the delay is over", async () => {
+      const addSpy = jest.spyOn(AbortSignal.prototype, "addEventListener");
+      const removeSpy = jest.spyOn(
+        AbortSignal.prototype,
+        "removeEventListener"
+      );
+      const { result } = renderHook(() =>
+        useZMKApp({ reconnect: { maxAttempts: 3, backoffMs: 5 } })
+      );
+
+      mockLostConnection();
+      mocks.mockSuccessfulConnection();
+      const { connection: restored } = mocks.mockSuccessfulConnection();
+      const connectFunction = jest
+        .fn()
+        .mockResolvedValueOnce(mocks.mockTransport)
+        .mockRejectedValueOnce(new Error("Device not found"))
+        .mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+      await waitFor(() => {
+        expect(result.current.state.connection).toBe(restored);
+      });
+
+      // Every listener added to a signal that never aborted was removed
+      const pending = addSpy.mock.calls.filter(([, listener], i) => {
+        const signal = addSpy.mock.contexts[i] as AbortSignal;
+        return (
+          !signal.aborted &&
+          !removeSpy.mock.calls.some(
+            ([, removed], j) =>
+              removed === listener && removeSpy.mock.contexts[j] === signal
+          )
+        );
+      });
+      addSpy.mockRestore();
+      removeSpy.mockRestore();
+      expect(pending).toHaveLength(0);
+    });
+
+    it("should expose reconnection progress", async () => {
+      const { result } = renderHook(() =>
+        useZMKApp({ reconnect: { maxAttempts: 4, backoffMs: 10000 } })
+      );
+
+      mockLostConnection();
+      mocks.mockSuccessfulConnection({ deviceName: "Sleepy Keyboard" });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      await waitFor(() => {
+        expect(result.current.state.status).toEqual({
+          type: "reconnecting",
+          attempt: 1,
+          maxAttempts: 4,
+        });
+      });
+      expect(result.current.isConnected).toBe(false);
+      expect(result.current.state.deviceInfo?.name).toBe("Sleepy Keyboard");
+
+      // Disconnecting stops the pending attempt
+      act(() => {
+        result.current.disconnect();
+      });
+      expect(result.current.state.status).toEqual({ type: "disconnected" });
+      expect(result.current.state.deviceInfo).toBeNull();
+      expect(connectFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const { result } = renderHook(() =>
+        useZMKApp({ reconnect: { maxAttempts: 2, backoffMs: 5 } })
+      );
+
+      mockLostConnection();
+      mocks.mockSuccessfulConnection();
+      const connectFunction = jest
+        .fn()
+        .mockResolvedValueOnce(mocks.mockTransport)
+        .mockRejectedValue(new Error("Device not found"));
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      await waitFor(() => {
+        expect(result.current.state.error).toBe(
+          "Reconnection failed: Device not found"
+        );
+      });
+      expect(connectFunction).toHaveBeenCalledTimes(3);
+      expect(result.current.state.status).toMatchObject({
+        type: "failed",
+        error: { kind: "transport" },
+      });
+      expect(result.current.isConnected).toBe(false);
+    });
+
+    it("should close the connection and stop reconnecting on unmount", async () => {
+      const { result, unmount } = renderHook(() =>
+        useZMKApp({ reconnect: { maxAttempts: 3, backoffMs: 5 } })
+      );
+
+      const connection = createMockConnection();
+      let failRead: (error: Error) => void = () => {};
+      connection.notification_readable.getReader = jest.fn().mockReturnValue({
+        read: () =>
+          new Promise((_, reject) => {
+            failRead = reject;
+          }),
+        releaseLock: jest.fn(),
+      });
+      mocks.create_rpc_connection.mockReturnValueOnce(connection);
+      mocks.mockSuccessfulConnection();
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+      const { signal } = mocks.create_rpc_connection.mock.calls[0][1];
+
+      unmount();
+      // The client is disposed once the unmount is known not to be a remount
+      await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+      expect(signal.aborted).toBe(true);
+
+      failRead(new Error("Device lost"));
+      await act(() => new Promise((resolve) => setTimeout(resolve, 20)));
+      expect(connectFunction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("connection status", () => {
+    let consoleSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    it("should move through the connecting phases", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      expect(result.current.state.status).toEqual({ type: "disconnected" });
+
+      mocks.mockSuccessfulConnection();
+      let openTransport: (transport: unknown) => void = () => {};
+      const connectFunction = jest.fn(
+        () => new Promise((resolve) => (openTransport = resolve))
+      );
+
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.connect(connectFunction as never);
+      });
+      expect(result.current.state.status).toEqual({ type: "connecting" });
+      expect(result.current.state.isLoading).toBe(true);
+
+      await act(async () => {
+        openTransport(mocks.mockTransport);
+        await pending;
+      });
+      expect(result.current.state.status).toEqual({ type: "connected" });
+      expect(result.current.state.isLoading).toBe(false);
+    });
+
+    it("should report a dismissed port picker as userCancelled", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      const error = Object.assign(new Error("No port selected by the user."), {
+        name: "NotFoundError",
+      });
+      const connectFunction = jest.fn().mockRejectedValue(error);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      const { status } = result.current.state;
+      expect(status.type).toBe("failed");
+      if (status.type !== "failed") return;
+      expect(status.error).toBeInstanceOf(ZMKConnectionError);
+      expect(status.error.kind).toBe("userCancelled");
+      expect(status.error.cause).toBe(error);
+      expect(result.current.state.error).toBe("No port selected by the user.");
+    });
+
+    it("should report missing device info as deviceInfo", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      mocks.mockFailedDeviceInfo();
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(result.current.state.status).toMatchObject({
+        type: "failed",
+        error: { kind: "deviceInfo" },
+      });
+    });
+
+    it("should report an unanswered device info request as timeout", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      mocks.create_rpc_connection.mockReturnValue(createMockConnection());
+      mocks.call_rpc.mockRejectedValueOnce(new Error("Operation timed out"));
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(result.current.state.status).toMatchObject({
+        type: "failed",
+        error: { kind: "timeout", message: "Operation timed out" },
+      });
+    });
+
+    it("should report a connection cancelled by disconnect as aborted", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      mocks.mockSuccessfulConnection();
+      let openTransport: (transport: unknown) => void = () => {};
+      const connectFunction = jest.fn(
+        () => new Promise((resolve) => (openTransport = resolve))
+      );
+
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.connect(connectFunction as never);
+      });
+      act(() => {
+        result.current.disconnect();
+      });
+      await act(async () => {
+        openTransport(mocks.mockTransport);
+        await pending;
+      });
+
+      expect(result.current.isConnected).toBe(false);
+      expect(result.current.state.status).toMatchObject({
+        type: "failed",
+        error: { kind: "aborted" },
+      });
+    });
+  });
+
+  describe("notification replay", () => {
+    const changes = [
+      { keymap: { unsavedChangesStatusChanged: true } },
+      { keymap: { unsavedChangesStatusChanged: false } },
+      { keymap: { unsavedChangesStatusChanged: true } },
+    ];
+
+    beforeEach(() => {
+      // Drop responses queued but not consumed by earlier tests
+      mocks.call_rpc.mockReset();
+    });
+
+    /**
+     * Connect and wait until all notifications have been dispatched
+     */
+    async function connectWithNotifications(
+      options: Parameters<typeof useZMKApp>[0],
+      notifications: unknown[]
+    ) {
+      const { result } = renderHook(() => useZMKApp(options));
+      mocks.mockSuccessfulConnection({ notifications });
+      const seen = jest.fn();
+      result.current.onNotification({ type: "keymap", callback: seen });
+      result.current.onNotification({
+        type: "custom",
+        subsystemIndex: 0,
+        callback: seen,
+      });
+
+      await act(async () => {
+        await result.current.connect(
+          jest.fn().mockResolvedValue(mocks.mockTransport)
+        );
+      });
+      await waitFor(() => {
+        expect(seen).toHaveBeenCalledTimes(notifications.length);
+      });
+      return result;
+    }
+
+    it("should replay the last notification to late subscribers", async () => {
+      const result = await connectWithNotifications(
+        { notificationHistory: 1 },
+        changes
+      );
+      const callback = jest.fn();
+
+      result.current.onNotification({
+        type: "keymap",
+        replay: "last",
+        callback,
+      });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({
+        unsavedChangesStatusChanged: true,
+      });
+    });
+
+    it("should not replay without the replay option", async () => {
+      const result = await connectWithNotifications(
+        { notificationHistory: 1 },
+        changes
+      );
+      const callback = jest.fn();
+
+      result.current.onNotification({ type: "keymap", callback });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should replay up to the configured history, oldest first", async () => {
+      const result = await connectWithNotifications(
+        { notificationHistory: 2 },
+        changes
+      );
+      const callback = jest.fn();
+
+      result.current.onNotification({ type: "keymap", replay: 5, callback });
+
+      expect(callback.mock.calls).toEqual([
+        [{ unsavedChangesStatusChanged: false }],
+        [{ unsavedChangesStatusChanged: true }],
+      ]);
+    });
+
+    it("should replay only notifications passing the filter", async () => {
+      const result = await connectWithNotifications(
+        { notificationHistory: 3 },
+        changes
+      );
+      const callback = jest.fn();
+
+      result.current.onNotification({
+        type: "keymap",
+        replay: "last",
+        filter: (notification) => !notification.unsavedChangesStatusChanged,
+        callback,
+      });
+
+      expect(callback.mock.calls).toEqual([
+        [{ unsavedChangesStatusChanged: false }],
+      ]);
+    });
+
+    it("should keep custom notification history per subsystem", async () => {
+      const payload = new Uint8Array([1]);
+      const result = await connectWithNotifications(
+        { notificationHistory: 1 },
+        [{ custom: { customNotification: { subsystemIndex: 0, payload } } }]
+      );
+      const other = jest.fn();
+      const callback = jest.fn();
+
+      result.current.onNotification({
+        type: "custom",
+        subsystemIndex: 1,
+        replay: "last",
+        callback: other,
+      });
+      result.current.onNotification({
+        type: "custom",
+        subsystemIndex: 0,
+        replay: "last",
+        callback,
+      });
+
+      expect(other).not.toHaveBeenCalled();
+      expect(callback).toHaveBeenCalledWith({ subsystemIndex: 0, payload });
+    });
+
+    it("should not keep history unless enabled", async () => {
+      const result = await connectWithNotifications({}, changes);
+      const callback = jest.fn();
+
+      result.current.onNotification({ type: "keymap", replay: 3, callback });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should not keep history when disabled or after disconnecting", async () => {
+      const disabled = await connectWithNotifications(
+        { notificationHistory: 0 },
+        changes
+      );
+      const callback = jest.fn();
+      disabled.current.onNotification({ type: "keymap", replay: 3, callback });
+      expect(callback).not.toHaveBeenCalled();
+
+      const result = await connectWithNotifications(
+        { notificationHistory: 1 },
+        changes
+      );
+      act(() => {
+        result.current.disconnect();
+      });
+      result.current.onNotification({
+        type: "keymap",
+        replay: "last",
+        callback,
+      });
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("notification channels", () => {
+    const customNotification = {
+      subsystemIndex: 2,
+      payload: new Uint8Array([1]),
+    };
+    const notifications = [
+      { core: { lockStateChanged: 0 } },
+      { custom: { customNotification } },
+      // A variant this client version does not decode
+      {},
+    ];
+
+    beforeEach(() => {
+      mocks.call_rpc.mockReset();
+    });
+
+    async function connect(result: { current: ReturnType<typeof useZMKApp> }) {
+      mocks.mockSuccessfulConnection({ notifications });
+      await act(async () => {
+        await result.current.connect(
+          jest.fn().mockResolvedValue(mocks.mockTransport)
+        );
+      });
+    }
+
+    it("should deliver every notification to any subscriptions", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      const callback = jest.fn();
+      result.current.onNotification({ type: "any", callback });
+
+      await connect(result);
+
+      await waitFor(() => {
+        expect(callback.mock.calls).toEqual(
+          notifications.map((notification) => [notification])
+        );
+      });
+    });
+
+    it("should deliver unrecognized notifications to unknown subscriptions", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      const unknown = jest.fn();
+      const any = jest.fn();
+      result.current.onNotification({ type: "unknown", callback: unknown });
+      result.current.onNotification({ type: "any", callback: any });
+
+      await connect(result);
+
+      await waitFor(() => {
+        expect(any).toHaveBeenCalledTimes(notifications.length);
+      });
+      expect(unknown.mock.calls).toEqual([[{}]]);
+    });
+
+    it("should skip notifications the filter rejects", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      const core = jest.fn();
+      const custom = jest.fn();
+      const any = jest.fn();
+      result.current.onNotification({
+        type: "core",
+        filter: (notification) => notification.lockStateChanged === 1,
+        callback: core,
+      });
+      result.current.onNotification({
+        type: "custom",
+        subsystemIndex: 2,
+        filter: (notification) => notification.payload.length > 0,
+        callback: custom,
+      });
+      result.current.onNotification({
+        type: "any",
+        filter: (notification) => notification.custom !== undefined,
+        callback: any,
+      });
+
+      await connect(result);
+
+      await waitFor(() => {
+        expect(any.mock.calls).toEqual([[{ custom: { customNotification } }]]);
+      });
+      expect(custom).toHaveBeenCalledWith(customNotification);
+      expect(core).not.toHaveBeenCalled();
+    });
+
+    it("should unsubscribe filtered subscriptions", async () => {
+      const { result } = renderHook(() => useZMKApp());
+      const callback = jest.fn();
+      const any = jest.fn();
+      const unsubscribe = result.current.onNotification({
+        type: "core",
+        filter: () => true,
+        callback,
+      });
+      result.current.onNotification({ type: "any", callback: any });
+      unsubscribe();
+
+      await connect(result);
+
+      await waitFor(() => {
+        expect(any).toHaveBeenCalledTimes(notifications.length);
+      });
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("options", () => {
+    beforeEach(() => {
+      // Drop responses queued but not consumed by earlier tests
+      mocks.call_rpc.mockReset();
+    });
+
+    it("should apply per-step timeouts", async () => {
+      const { result } = renderHook(() =>
+        useZMKApp({
+          timeouts: { getDeviceInfo: 20 },
+          logger: { error: jest.fn() },
+        })
+      );
+      mocks.create_rpc_connection.mockReturnValue(createMockConnection());
+      mocks.call_rpc.mockReturnValueOnce(new Promise(() => {}));
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(result.current.state.status).toMatchObject({
+        type: "failed",
+        error: { kind: "timeout", cause: { operation: "getDeviceInfo" } },
+      });
+    });
+
+    it("should skip listing subsystems when fetchSubsystems is false", async () => {
+      const { result } = renderHook(() =>
+        useZMKApp({ fetchSubsystems: false })
+      );
+      mocks.mockSuccessfulConnection({
+        subsystems: ["test-subsystem"],
+        fetchSubsystems: false,
+      });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(result.current.isConnected).toBe(true);
+      expect(result.current.state.customSubsystems).toBeNull();
+      expect(mocks.call_rpc).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ custom: expect.anything() })
+      );
+    });
+
+    it("should connect on mount with autoConnect", async () => {
+      mocks.mockSuccessfulConnection({ deviceName: "Auto" });
+      const autoConnect = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      const { result } = renderHook(() => useZMKApp({ autoConnect }));
+
+      await waitFor(() => {
+        expect(result.current.isConnected).toBe(true);
+      });
+      expect(autoConnect).toHaveBeenCalledTimes(1);
+      expect(result.current.state.deviceInfo?.name).toBe("Auto");
+    });
+
+    it("should auto-connect only once under StrictMode", async () => {
+      mocks.mockSuccessfulConnection({ deviceName: "Auto" });
+      const autoConnect = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      const { result } = renderHook(() => useZMKApp({ autoConnect }), {
+        wrapper: StrictMode,
+      });
+
+      await waitFor(() => {
+        expect(result.current.isConnected).toBe(true);
+      });
+      expect(autoConnect).toHaveBeenCalledTimes(1);
+      expect(mocks.create_rpc_connection).toHaveBeenCalledTimes(1);
+      expect(result.current.state.deviceInfo?.name).toBe("Auto");
+    });
+
+    it("should send log messages to the logger", async () => {
+      const logger = { error: jest.fn() };
+      const consoleSpy = jest.spyOn(console, "error");
+      const { result } = renderHook(() => useZMKApp({ logger }));
+      const connectFunction = jest.fn().mockRejectedValue(new Error("boom"));
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+
+      expect(logger.error).toHaveBeenCalledWith(
+        "Connection failed:",
+        expect.objectContaining({ message: "boom" })
+      );
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it("should call lifecycle callbacks", async () => {
+      const onConnected = jest.fn();
+      const onDisconnected = jest.fn();
+      const onError = jest.fn();
+      const { result } = renderHook(() =>
+        useZMKApp({
+          onConnected,
+          onDisconnected,
+          onError,
+          logger: { error: jest.fn() },
+        })
+      );
+      mocks.mockSuccessfulConnection({ deviceName: "Test" });
+      const connectFunction = jest.fn().mockResolvedValue(mocks.mockTransport);
+
+      await act(async () => {
+        await result.current.connect(connectFunction);
+      });
+      expect(onConnected).toHaveBeenCalledWith(
+        expect.objectContaining({ status: { type: "connected" } })
+      );
+      expect(onConnected.mock.calls[0][0].deviceInfo.name).toBe("Test");
+
+      act(() => {
+        result.current.disconnect();
+      });
+      expect(onDisconnected).toHaveBeenCalledTimes(1);
+
+      // Not connected anymore
+      act(() => {
+        result.current.disconnect();
+      });
+      expect(onDisconnected).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await result.current.connect(
+          jest.fn().mockRejectedValue(new Error("boom"))
+        );
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(ZMKConnectionError));
+      expect(onError.mock.calls[0][0].message).toBe("boom");
+    });
+  });
 });
@@ -0,0 +1,330 @@
+/**
+ * Tests for useZMKBehaviors hook
+ */
+
+import React from "react";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import {
+  useZMKBehaviors,
+  validateBehaviorBinding,
+  clearZMKBehaviorCache,
+} from "../src/useZMKBehaviors";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+const keyPress = {
+  id: 1,
+  displayName: "Key Press",
+  metadata: [
+    {
+      param1: [
+        { name: "Key", hidUsage: { keyboardMax: 0xff, consumerMax: 0x29c } },
+      ],
+      param2: [],
+    },
+  ],
+};
+
+const momentaryLayer = {
+  id: 2,
+  displayName: "Momentary Layer",
+  metadata: [{ param1: [{ name: "Layer", layerId: {} }], param2: [] }],
+};
+
+const bluetooth = {
+  id: 3,
+  displayName: "Bluetooth",
+  metadata: [
+    { param1: [{ name: "Clear", constant: 0 }], param2: [] },
+    {
+      param1: [{ name: "Select", constant: 3 }],
+      param2: [{ name: "Profile", range: { min: 0, max: 4 } }],
+    },
+  ],
+};
+
+const allBehaviors = [keyPress, momentaryLayer, bluetooth];
+
+/**
+ * Answer behaviors requests from the fixtures above
+ */
+function mockBehaviorsRPC() {
+  call_rpc.mockImplementation(
+    async (_: unknown, request: { behaviors: Record<string, unknown> }) => {
+      if (request.behaviors.listAllBehaviors) {
+        return {
+          behaviors: { listAllBehaviors: { behaviors: [3, 1, 2] } },
+        };
+      }
+      const { behaviorId } = request.behaviors.getBehaviorDetails as {
+        behaviorId: number;
+      };
+      return {
+        behaviors: {
+          getBehaviorDetails: allBehaviors.find((b) => b.id === behaviorId),
+        },
+      };
+    }
+  );
+}
+
+function renderBehaviorsHook(zmkApp: UseZMKAppReturn) {
+  return renderHook(() => useZMKBehaviors(), {
+    wrapper: ({ children }) => (
+      <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+    ),
+  });
+}
+
+describe("validateBehaviorBinding", () => {
+  it("should accept keyboard and consumer usages within range", () => {
+    // A (0x07, 0x04) and LEFT_SHIFT-modified A
+    expect(
+      validateBehaviorBinding(keyPress, {
+        behaviorId: 1,
+        param1: 0x70004,
+        param2: 0,
+      })
+    ).toBeNull();
+    expect(
+      validateBehaviorBinding(keyPress, {
+        behaviorId: 1,
+        param1: 0x02070004,
+        param2: 0,
+      })
+    ).toBeNull();
+    // C_VOLUME_UP (0x0C, 0xE9)
+    expect(
+      validateBehaviorBinding(keyPress, {
+        behaviorId: 1,
+        param1: 0xc00e9,
+        param2: 0,
+      })
+    ).toBeNull();
+  });
+
+  it("should reject usages outside the reported maximum", () => {
+    expect(
+      validateBehaviorBinding(keyPress, {
+        behaviorId: 1,
+        param1: 0x70100,
+        param2: 0,
+      })
+    ).toBe("Invalid param1 459008 for Key Press");
+  });
+
+  it("should require unused parameters to be zero", () => {
+    expect(
+      validateBehaviorBinding(keyPress, {
+        behaviorId: 1,
+        param1: 0x70004,
+        param2: 1,
+      })
+    ).toBe("Invalid param2 1 for Key Press");
+  });
+
+  it("should match any parameter set", () => {
+    expect(
+      validateBehaviorBinding(bluetooth, {
+        behaviorId: 3,
+        param1: 0,
+        param2: 0,
+      })
+    ).toBeNull();
+    expect(
+      validateBehaviorBinding(bluetooth, {
+        behaviorId: 3,
+        param1: 3,
+        param2: 4,
+      })
+    ).toBeNull();
+    expect(
+      validateBehaviorBinding(bluetooth, {
+        behaviorId: 3,
+        param1: 3,
+        param2: 5,
+      })
+    ).toBe("Invalid param2 5 for Bluetooth");
+  });
+
+  it("should check layer parameters against existing layers", () => {
+    const binding = { behaviorId: 2, param1: 7, param2: 0 };
+    expect(validateBehaviorBinding(momentaryLayer, binding)).toBeNull();
+    expect(
+      validateBehaviorBinding(momentaryLayer, binding, { layerIds: [0, 1] })
+    ).toBe("Invalid param1 7 for Momentary Layer");
+  });
+});
+
+describe("useZMKBehaviors", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearZMKBehaviorCache();
+  });
+
+  it("should stay empty when not connected", () => {
+    const { result } = renderBehaviorsHook(createMockZMKApp());
+
+    expect(result.current.behaviors).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should list behaviors and fetch their details", async () => {
+    mockBehaviorsRPC();
+    const zmkApp = createConnectedMockZMKApp();
+    const { result } = renderBehaviorsHook(zmkApp);
+
+    await waitFor(() => {
+      expect(result.current.behaviors).toHaveLength(3);
+    });
+
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      behaviors: { listAllBehaviors: true },
+    });
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      behaviors: { getBehaviorDetails: { behaviorId: 2 } },
+    });
+    expect(result.current.behaviors.map((b) => b.id)).toEqual([1, 2, 3]);
+    expect(result.current.getBehavior(3)).toEqual(bluetooth);
+    expect(result.current.getBehaviorByDisplayName("key press")).toEqual(
+      keyPress
+    );
+    expect(result.current.getBehaviorByDisplayName("Unknown")).toBeNull();
+  });
+
+  it("should request details one at a time", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    call_rpc.mockImplementation(
+      async (_: unknown, request: { behaviors: Record<string, unknown> }) => {
+        if (request.behaviors.listAllBehaviors) {
+          return {
+            behaviors: {
+              listAllBehaviors: { behaviors: [1, 2, 3, 4, 5, 6] },
+            },
+          };
+        }
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        const { behaviorId } = request.behaviors.getBehaviorDetails as {
+          behaviorId: number;
+        };
+        return {
+          behaviors: {
+            getBehaviorDetails: { ...keyPress, id: behaviorId },
+          },
+        };
+      }
+    );
+
+    const { result } = renderBehaviorsHook(createConnectedMockZMKApp());
+
+    await waitFor(() => {
+      expect(result.current.behaviors).toHaveLength(6);
+    });
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("should reuse cached behaviors for the same device", async () => {
+    mockBehaviorsRPC();
+    const first = renderBehaviorsHook(createConnectedMockZMKApp());
+    await waitFor(() => {
+      expect(first.result.current.behaviors).toHaveLength(3);
+    });
+    const callCount = call_rpc.mock.calls.length;
+
+    // New connection to a device with the same serial number
+    const second = renderBehaviorsHook(createConnectedMockZMKApp());
+    await waitFor(() => {
+      expect(second.result.current.behaviors).toHaveLength(3);
+    });
+
+    expect(call_rpc).toHaveBeenCalledTimes(callCount);
+  });
+
+  it("should bypass the cache on refresh", async () => {
+    mockBehaviorsRPC();
+    const { result } = renderBehaviorsHook(createConnectedMockZMKApp());
+    await waitFor(() => {
+      expect(result.current.behaviors).toHaveLength(3);
+    });
+    const callCount = call_rpc.mock.calls.length;
+
+    await act(async () => {
+      await result.current.refresh();
+    });
+
+    expect(call_rpc.mock.calls.length).toBe(callCount * 2);
+  });
+
+  it("should not fetch while the device is locked", () => {
+    // ZMK_STUDIO_CORE_LOCK_STATE_LOCKED
+    renderBehaviorsHook(createConnectedMockZMKApp({ lockState: 0 }));
+
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should expose fetch errors and not cache them", async () => {
+    call_rpc.mockRejectedValueOnce(new Error("boom"));
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { result } = renderBehaviorsHook(createConnectedMockZMKApp());
+
+    await waitFor(() => {
+      expect(result.current.error?.message).toBe("boom");
+    });
+
+    mockBehaviorsRPC();
+    await act(async () => {
+      await result.current.refresh();
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.behaviors).toHaveLength(3);
+    spy.mockRestore();
+  });
+
+  it("should log fetch errors with the app's logger", async () => {
+    const error = new Error("boom");
+    call_rpc.mockRejectedValueOnce(error);
+    const logger = { error: jest.fn() };
+
+    const { result } = renderBehaviorsHook({
+      ...createConnectedMockZMKApp(),
+      logger,
+    });
+
+    await waitFor(() => {
+      expect(result.current.error).toBe(error);
+    });
+    expect(logger.error).toHaveBeenCalledWith("Failed to get behaviors", error);
+  });
+
+  it("should validate bindings against loaded behaviors", async () => {
+    mockBehaviorsRPC();
+    const { result } = renderBehaviorsHook(createConnectedMockZMKApp());
+    await waitFor(() => {
+      expect(result.current.behaviors).toHaveLength(3);
+    });
+
+    expect(
+      result.current.validateBinding({ behaviorId: 3, param1: 3, param2: 1 })
+    ).toBeNull();
+    expect(
+      result.current.validateBinding({ behaviorId: 9, param1: 0, param2: 0 })
+    ).toBe("Unknown behavior 9");
+  });
+});
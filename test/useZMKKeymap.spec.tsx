@@ -0,0 +1,382 @@
+/**
+ * Tests for useZMKKeymap hook
+ */
+
+import React from "react";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { useZMKKeymap, ZMKKeymapError } from "../src/useZMKKeymap";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+import { ZMKLockedError } from "../src/rpc";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+function createKeymap() {
+  return {
+    layers: [
+      {
+        id: 0,
+        name: "Base",
+        bindings: [
+          { behaviorId: 1, param1: 4, param2: 0 },
+          { behaviorId: 1, param1: 5, param2: 0 },
+        ],
+      },
+      {
+        id: 1,
+        name: "Lower",
+        bindings: [
+          { behaviorId: 2, param1: 0, param2: 0 },
+          { behaviorId: 2, param1: 0, param2: 0 },
+        ],
+      },
+    ],
+    availableLayers: 4,
+    maxLayerNameLength: 16,
+  };
+}
+
+function renderKeymapHook(zmkApp: UseZMKAppReturn) {
+  return renderHook(() => useZMKKeymap(), {
+    wrapper: ({ children }) => (
+      <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+    ),
+  });
+}
+
+describe("useZMKKeymap", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should stay empty when not connected", () => {
+    const { result } = renderKeymapHook(createMockZMKApp());
+
+    expect(result.current.keymap).toBeNull();
+    expect(result.current.layers).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should load the keymap when connected", async () => {
+    const keymap = createKeymap();
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: keymap } });
+
+    const zmkApp = createConnectedMockZMKApp();
+    const { result } = renderKeymapHook(zmkApp);
+
+    await waitFor(() => {
+      expect(result.current.keymap).toEqual(keymap);
+    });
+
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      keymap: { getKeymap: true },
+    });
+    expect(result.current.layers).toHaveLength(2);
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should not fetch the keymap while the device is locked", () => {
+    // ZMK_STUDIO_CORE_LOCK_STATE_LOCKED
+    renderKeymapHook(createConnectedMockZMKApp({ lockState: 0 }));
+
+    expect(call_rpc).not.toHaveBeenCalled();
+  });
+
+  it("should pass ZMKLockedError through mutators", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    // MetaError with ErrorConditions.UNLOCK_REQUIRED
+    call_rpc.mockRejectedValueOnce(
+      Object.assign(new Error("Meta error: 1"), { condition: 1 })
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.setLayerProps(0, { name: "Locked" })
+      ).rejects.toBeInstanceOf(ZMKLockedError);
+    });
+    expect(result.current.layers[0].name).toBe("Base");
+  });
+
+  it("should expose fetch errors as ZMKKeymapError", async () => {
+    call_rpc.mockRejectedValueOnce(new Error("boom"));
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+
+    await waitFor(() => {
+      expect(result.current.error).toBeInstanceOf(ZMKKeymapError);
+    });
+    expect(result.current.error).toMatchObject({ operation: "getKeymap" });
+    expect(result.current.keymap).toBeNull();
+    spy.mockRestore();
+  });
+
+  it("should expose ZMKLockedError when fetching on a locked device", async () => {
+    call_rpc.mockRejectedValueOnce(
+      Object.assign(new Error("Meta error: 1"), { condition: 1 })
+    );
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+
+    await waitFor(() => {
+      expect(result.current.error).toBeInstanceOf(ZMKLockedError);
+    });
+    spy.mockRestore();
+  });
+
+  it("should refresh on keymap notifications", async () => {
+    const keymap = createKeymap();
+    call_rpc.mockResolvedValue({ keymap: { getKeymap: keymap } });
+
+    const zmkApp = createConnectedMockZMKApp();
+    renderKeymapHook(zmkApp);
+
+    await waitFor(() => {
+      expect(zmkApp.onNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "keymap" })
+      );
+    });
+    expect(call_rpc).toHaveBeenCalledTimes(1);
+
+    const subscription = (zmkApp.onNotification as jest.Mock).mock.calls[0][0];
+    await act(async () => {
+      subscription.callback({ unsavedChangesStatusChanged: true });
+    });
+
+    expect(call_rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it("should subscribe to keymap notifications once for all hooks", async () => {
+    const keymap = createKeymap();
+    call_rpc.mockResolvedValue({ keymap: { getKeymap: keymap } });
+
+    const zmkApp = createConnectedMockZMKApp();
+    const unsubscribe = jest.fn();
+    (zmkApp.onNotification as jest.Mock).mockReturnValue(unsubscribe);
+    const first = renderKeymapHook(zmkApp);
+    const second = renderKeymapHook(zmkApp);
+    await waitFor(() => {
+      expect(second.result.current.keymap).toEqual(keymap);
+    });
+
+    expect(zmkApp.onNotification).toHaveBeenCalledTimes(1);
+    const subscription = (zmkApp.onNotification as jest.Mock).mock.calls[0][0];
+    await act(async () => {
+      subscription.callback({ unsavedChangesStatusChanged: true });
+    });
+    expect(call_rpc).toHaveBeenCalledTimes(2);
+
+    // Kept until the last hook unmounts
+    first.unmount();
+    expect(unsubscribe).not.toHaveBeenCalled();
+    second.unmount();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share edits between hooks of the same connection", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const zmkApp = createConnectedMockZMKApp();
+    const first = renderKeymapHook(zmkApp);
+    const second = renderKeymapHook(zmkApp);
+    await waitFor(() => expect(second.result.current.keymap).not.toBeNull());
+    expect(call_rpc).toHaveBeenCalledTimes(1);
+
+    call_rpc.mockResolvedValueOnce({ keymap: { setLayerProps: 0 } });
+    await act(async () => {
+      await first.result.current.setLayerProps(1, { name: "Raise" });
+    });
+
+    expect(second.result.current.layers[1].name).toBe("Raise");
+  });
+
+  it("should set layer binding optimistically", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const zmkApp = createConnectedMockZMKApp();
+    const { result } = renderKeymapHook(zmkApp);
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    let resolveRPC: (value: unknown) => void = () => {};
+    call_rpc.mockReturnValueOnce(
+      new Promise((resolve) => {
+        resolveRPC = resolve;
+      })
+    );
+
+    const binding = { behaviorId: 3, param1: 7, param2: 0 };
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.setLayerBinding(0, 1, binding);
+    });
+
+    // Applied before the device answers
+    expect(result.current.layers[0].bindings[1]).toEqual(binding);
+
+    await act(async () => {
+      resolveRPC({ keymap: { setLayerBinding: 0 } });
+      await pending;
+    });
+
+    expect(call_rpc).toHaveBeenLastCalledWith(zmkApp.state.connection, {
+      keymap: { setLayerBinding: { layerId: 0, keyPosition: 1, binding } },
+    });
+    expect(result.current.layers[0].bindings[1]).toEqual(binding);
+  });
+
+  it("should roll back layer binding when the device rejects it", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    // SET_LAYER_BINDING_RESP_INVALID_BEHAVIOR
+    call_rpc.mockResolvedValueOnce({ keymap: { setLayerBinding: 2 } });
+
+    let error: unknown;
+    await act(async () => {
+      await result.current
+        .setLayerBinding(0, 0, { behaviorId: 99, param1: 0, param2: 0 })
+        .catch((e) => (error = e));
+    });
+
+    expect(error).toBeInstanceOf(ZMKKeymapError);
+    expect((error as ZMKKeymapError).operation).toBe("setLayerBinding");
+    expect((error as ZMKKeymapError).code).toBe(2);
+    expect(result.current.layers[0].bindings[0]).toEqual({
+      behaviorId: 1,
+      param1: 4,
+      param2: 0,
+    });
+  });
+
+  it("should add a layer from the device response", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    const layer = { id: 2, name: "", bindings: [] };
+    call_rpc.mockResolvedValueOnce({
+      keymap: { addLayer: { ok: { index: 2, layer } } },
+    });
+
+    await act(async () => {
+      const details = await result.current.addLayer();
+      expect(details).toEqual({ index: 2, layer });
+    });
+
+    expect(result.current.layers).toHaveLength(3);
+    expect(result.current.layers[2]).toEqual(layer);
+  });
+
+  it("should roll back removed layer on RPC error", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    call_rpc.mockRejectedValueOnce(new Error("Operation timed out"));
+
+    await act(async () => {
+      await expect(result.current.removeLayer(1)).rejects.toThrow(
+        "removeLayer failed: Operation timed out"
+      );
+    });
+
+    expect(result.current.layers.map((l) => l.name)).toEqual(["Base", "Lower"]);
+  });
+
+  it("should restore a layer at the given index", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    const layer = { id: 5, name: "Restored", bindings: [] };
+    call_rpc.mockResolvedValueOnce({ keymap: { restoreLayer: { ok: layer } } });
+
+    await act(async () => {
+      await result.current.restoreLayer(5, 0);
+    });
+
+    expect(result.current.layers[0]).toEqual(layer);
+  });
+
+  it("should move layers and roll back on rejection", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    // MOVE_LAYER_ERR_INVALID_DESTINATION
+    call_rpc.mockResolvedValueOnce({ keymap: { moveLayer: { err: 3 } } });
+
+    await act(async () => {
+      await expect(result.current.moveLayer(0, 1)).rejects.toBeInstanceOf(
+        ZMKKeymapError
+      );
+    });
+    expect(result.current.layers.map((l) => l.name)).toEqual(["Base", "Lower"]);
+
+    const moved = createKeymap();
+    moved.layers.reverse();
+    call_rpc.mockResolvedValueOnce({ keymap: { moveLayer: { ok: moved } } });
+
+    await act(async () => {
+      await result.current.moveLayer(0, 1);
+    });
+    expect(result.current.layers.map((l) => l.name)).toEqual(["Lower", "Base"]);
+  });
+
+  it("should roll back layer name when setLayerProps fails", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    call_rpc.mockResolvedValueOnce({ keymap: { setLayerProps: 0 } });
+    await act(async () => {
+      await result.current.setLayerProps(1, { name: "Nav" });
+    });
+    expect(result.current.layers[1].name).toBe("Nav");
+
+    // SET_LAYER_PROPS_RESP_ERR_INVALID_ID
+    call_rpc.mockResolvedValueOnce({ keymap: { setLayerProps: 2 } });
+    await act(async () => {
+      await expect(
+        result.current.setLayerProps(1, { name: "Raise" })
+      ).rejects.toMatchObject({ operation: "setLayerProps", code: 2 });
+    });
+    expect(result.current.layers[1].name).toBe("Nav");
+  });
+
+  it("should replace the keymap with one returned by the device", async () => {
+    call_rpc.mockResolvedValueOnce({ keymap: { getKeymap: createKeymap() } });
+    const { result } = renderKeymapHook(createConnectedMockZMKApp());
+    await waitFor(() => expect(result.current.keymap).not.toBeNull());
+
+    const remapped = createKeymap();
+    remapped.layers = remapped.layers.slice(0, 1);
+    act(() => {
+      result.current.replaceKeymap(remapped);
+    });
+
+    expect(result.current.keymap).toEqual(remapped);
+  });
+
+  it("should reject mutations when not connected", async () => {
+    const { result } = renderKeymapHook(createMockZMKApp());
+
+    await expect(result.current.removeLayer(0)).rejects.toThrow(
+      "Not connected to a device"
+    );
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Tests for useZMKKeymapTransfer hook
+ */
+
+import React from "react";
+import { renderHook } from "@testing-library/react";
+import {
+  useZMKKeymapTransfer,
+  exportKeymapDocument,
+  parseKeymapDocument,
+  diffKeymapDocument,
+  ZMKKeymapDocumentError,
+} from "../src/useZMKKeymapTransfer";
+import type { ZMKKeymapDocument } from "../src/useZMKKeymapTransfer";
+import type { UseZMKKeymapReturn } from "../src/useZMKKeymap";
+import type { UseZMKBehaviorsReturn } from "../src/useZMKBehaviors";
+import type { UsePhysicalLayoutsReturn } from "../src/usePhysicalLayouts";
+import { ZMKAppProvider, createConnectedMockZMKApp } from "../src/testing";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const BEHAVIORS = [
+  {
+    id: 10,
+    displayName: "Key Press",
+    metadata: [
+      {
+        param1: [
+          { name: "Key", hidUsage: { keyboardMax: 0xff, consumerMax: 0xfff } },
+        ],
+        param2: [],
+      },
+    ],
+  },
+  {
+    id: 11,
+    displayName: "Momentary Layer",
+    metadata: [{ param1: [{ name: "Layer", layerId: {} }], param2: [] }],
+  },
+  { id: 12, displayName: "Transparent", metadata: [] },
+];
+
+// Layer IDs are firmware-local and deliberately differ from indexes
+function createKeymap() {
+  return {
+    layers: [
+      {
+        id: 5,
+        name: "Base",
+        bindings: [
+          { behaviorId: 10, param1: 0x70004, param2: 0 },
+          { behaviorId: 11, param1: 7, param2: 0 },
+        ],
+      },
+      {
+        id: 7,
+        name: "Lower",
+        bindings: [
+          { behaviorId: 12, param1: 0, param2: 0 },
+          { behaviorId: 12, param1: 0, param2: 0 },
+        ],
+      },
+    ],
+    availableLayers: 2,
+    maxLayerNameLength: 8,
+  };
+}
+
+function createDocument(): ZMKKeymapDocument {
+  return {
+    format: "zmk-studio-keymap",
+    version: 1,
+    device: "Test Device",
+    physicalLayout: null,
+    layers: [
+      {
+        name: "Base",
+        bindings: [
+          { behavior: "Key Press", param1: 0x70004, param2: 0 },
+          { behavior: "Momentary Layer", param1: 1, param2: 0 },
+        ],
+      },
+      {
+        name: "Lower",
+        bindings: [
+          { behavior: "Transparent", param1: 0, param2: 0 },
+          { behavior: "Transparent", param1: 0, param2: 0 },
+        ],
+      },
+    ],
+  };
+}
+
+function createKeymapHook(): UseZMKKeymapReturn {
+  const keymap = createKeymap();
+  return {
+    keymap,
+    layers: keymap.layers,
+    isLoading: false,
+    error: null,
+    refresh: jest.fn(),
+    setLayerBinding: jest.fn().mockResolvedValue(undefined),
+    addLayer: jest.fn().mockResolvedValue({
+      index: 2,
+      layer: { id: 9, name: "", bindings: [] },
+    }),
+    removeLayer: jest.fn().mockResolvedValue(undefined),
+    restoreLayer: jest.fn(),
+    moveLayer: jest.fn(),
+    setLayerProps: jest.fn().mockResolvedValue(undefined),
+    replaceKeymap: jest.fn(),
+  };
+}
+
+function createBehaviorsHook(): UseZMKBehaviorsReturn {
+  return {
+    behaviors: BEHAVIORS,
+    isLoading: false,
+    error: null,
+    refresh: jest.fn(),
+    getBehavior: jest.fn(),
+    getBehaviorByDisplayName: jest.fn(),
+    validateBinding: jest.fn(),
+  };
+}
+
+function renderTransferHook(
+  keymap: UseZMKKeymapReturn,
+  physicalLayouts?: UsePhysicalLayoutsReturn
+) {
+  const zmkApp = createConnectedMockZMKApp({ deviceName: "Test Device" });
+  const behaviors = createBehaviorsHook();
+  return renderHook(
+    () => useZMKKeymapTransfer({ keymap, behaviors, physicalLayouts }),
+    {
+      wrapper: ({ children }) => (
+        <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+      ),
+    }
+  );
+}
+
+describe("exportKeymapDocument", () => {
+  it("should use behavior names and layer indexes", () => {
+    expect(
+      exportKeymapDocument(createKeymap(), BEHAVIORS, { device: "Test Device" })
+    ).toEqual(createDocument());
+  });
+
+  it("should reject bindings with unknown behaviors", () => {
+    const keymap = createKeymap();
+    keymap.layers[1].bindings[0].behaviorId = 99;
+
+    expect(() => exportKeymapDocument(keymap, BEHAVIORS)).toThrow(
+      ZMKKeymapDocumentError
+    );
+  });
+});
+
+describe("parseKeymapDocument", () => {
+  it("should accept exported documents after a JSON round trip", () => {
+    const json = JSON.stringify(createDocument());
+
+    expect(parseKeymapDocument(JSON.parse(json))).toEqual(createDocument());
+  });
+
+  it("should list every structural problem", () => {
+    const document = {
+      ...createDocument(),
+      layers: [
+        { bindings: [] },
+        { name: "Lower", bindings: [{ behavior: "Transparent", param1: 0.5 }] },
+      ],
+    };
+
+    expect(() => parseKeymapDocument(document)).toThrow(
+      expect.objectContaining({
+        problems: [
+          "Layer 0 must have a name",
+          "Layer 1 key 0 must have a behavior name and integer parameters",
+        ],
+      })
+    );
+    expect(() => parseKeymapDocument({ format: "other" })).toThrow(
+      "Not a keymap document"
+    );
+    expect(() =>
+      parseKeymapDocument({ ...createDocument(), version: 2 })
+    ).toThrow("Unsupported version 2");
+  });
+});
+
+describe("diffKeymapDocument", () => {
+  it("should be empty for the keymap the document was exported from", () => {
+    expect(
+      diffKeymapDocument(createDocument(), createKeymap(), BEHAVIORS)
+    ).toEqual({
+      addedLayers: 0,
+      removedLayers: 0,
+      renamedLayers: [],
+      bindings: [],
+    });
+  });
+
+  it("should list renames, binding changes and added layers", () => {
+    const document = createDocument();
+    document.layers[0].bindings[0].param1 = 0x70005;
+    document.layers[1].name = "Nav";
+    document.layers.push({
+      name: "Fn",
+      bindings: [
+        { behavior: "transparent", param1: 0, param2: 0 },
+        { behavior: "Momentary Layer", param1: 0, param2: 0 },
+      ],
+    });
+
+    const diff = diffKeymapDocument(document, createKeymap(), BEHAVIORS);
+
+    expect(diff.addedLayers).toBe(1);
+    expect(diff.renamedLayers).toEqual([
+      { layerIndex: 1, from: "Lower", to: "Nav" },
+      { layerIndex: 2, from: null, to: "Fn" },
+    ]);
+    expect(diff.bindings).toEqual([
+      {
+        layerIndex: 0,
+        keyPosition: 0,
+        from: { behavior: "Key Press", param1: 0x70004, param2: 0 },
+        to: { behavior: "Key Press", param1: 0x70005, param2: 0 },
+      },
+      expect.objectContaining({ layerIndex: 2, keyPosition: 0, from: null }),
+      expect.objectContaining({ layerIndex: 2, keyPosition: 1, from: null }),
+    ]);
+  });
+
+  it("should reject documents that do not fit the device", () => {
+    const document = createDocument();
+    document.physicalLayout = "Split Space";
+    document.layers[0].bindings.push({
+      behavior: "Key Press",
+      param1: 4,
+      param2: 0,
+    });
+    document.layers[1].bindings[0] = {
+      behavior: "Caps Word",
+      param1: 0,
+      param2: 0,
+    };
+    document.layers[1].bindings[1] = {
+      behavior: "Momentary Layer",
+      param1: 5,
+      param2: 0,
+    };
+
+    expect(() =>
+      diffKeymapDocument(document, createKeymap(), BEHAVIORS, {
+        physicalLayout: "Default",
+      })
+    ).toThrow(
+      expect.objectContaining({
+        problems: [
+          'Keymap is for physical layout "Split Space", but "Default" is active',
+          "Layer 0 has 3 bindings, but the device has 2 keys",
+          'Layer 1 key 0 uses unknown behavior "Caps Word"',
+          "Layer 1 key 1 refers to missing layer 5",
+        ],
+      })
+    );
+  });
+});
+
+describe("useZMKKeymapTransfer", () => {
+  it("should export with the device name and active physical layout", () => {
+    const physicalLayouts = {
+      activeLayout: { name: "Default", keys: [], width: 0, height: 0 },
+    } as unknown as UsePhysicalLayoutsReturn;
+    const { result } = renderTransferHook(createKeymapHook(), physicalLayouts);
+
+    expect(result.current.exportKeymap()).toEqual({
+      ...createDocument(),
+      physicalLayout: "Default",
+    });
+  });
+
+  it("should throw when the keymap is not loaded", () => {
+    const keymap = { ...createKeymapHook(), keymap: null };
+    const { result } = renderTransferHook(keymap);
+
+    expect(() => result.current.exportKeymap()).toThrow(
+      "Keymap and behaviors must be loaded first"
+    );
+  });
+
+  it("should apply only the changes, resolving names and layer indexes", async () => {
+    const keymap = createKeymapHook();
+    const { result } = renderTransferHook(keymap);
+    const document = createDocument();
+    document.layers[1].name = "Nav";
+    document.layers[1].bindings[1] = {
+      behavior: "Momentary Layer",
+      param1: 2,
+      param2: 0,
+    };
+    document.layers.push({
+      name: "Fn",
+      bindings: [
+        { behavior: "Momentary Layer", param1: 0, param2: 0 },
+        { behavior: "Transparent", param1: 0, param2: 0 },
+      ],
+    });
+
+    const diff = await result.current.importKeymap(document);
+
+    expect(diff.addedLayers).toBe(1);
+    expect(keymap.addLayer).toHaveBeenCalledTimes(1);
+    expect(keymap.removeLayer).not.toHaveBeenCalled();
+    expect(keymap.setLayerProps).toHaveBeenCalledWith(7, { name: "Nav" });
+    expect(keymap.setLayerProps).toHaveBeenCalledWith(9, { name: "Fn" });
+    // Layer indexes are mapped to the device's layer IDs
+    expect(keymap.setLayerBinding).toHaveBeenCalledWith(7, 1, {
+      behaviorId: 11,
+      param1: 9,
+      param2: 0,
+    });
+    expect(keymap.setLayerBinding).toHaveBeenCalledWith(9, 0, {
+      behaviorId: 11,
+      param1: 5,
+      param2: 0,
+    });
+    expect(keymap.setLayerBinding).toHaveBeenCalledTimes(3);
+  });
+
+  it("should remove surplus layers from the end", async () => {
+    const keymap = createKeymapHook();
+    const { result } = renderTransferHook(keymap);
+    const document = createDocument();
+    document.layers = [
+      {
+        name: "Base",
+        bindings: [
+          { behavior: "Key Press", param1: 0x70004, param2: 0 },
+          { behavior: "Transparent", param1: 0, param2: 0 },
+        ],
+      },
+    ];
+
+    const diff = await result.current.importKeymap(document);
+
+    expect(diff.removedLayers).toBe(1);
+    expect(keymap.removeLayer).toHaveBeenCalledWith(1);
+    expect(keymap.setLayerBinding).toHaveBeenCalledWith(5, 1, {
+      behaviorId: 12,
+      param1: 0,
+      param2: 0,
+    });
+  });
+
+  it("should not change anything when the document does not fit", async () => {
+    const keymap = createKeymapHook();
+    const { result } = renderTransferHook(keymap);
+    const document = createDocument();
+    document.layers[0].name = "A very long name";
+
+    await expect(result.current.importKeymap(document)).rejects.toThrow(
+      ZMKKeymapDocumentError
+    );
+    expect(keymap.setLayerProps).not.toHaveBeenCalled();
+    expect(keymap.setLayerBinding).not.toHaveBeenCalled();
+  });
+});
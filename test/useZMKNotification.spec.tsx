@@ -0,0 +1,168 @@
+/**
+ * Tests for useZMKNotification hook
+ */
+
+import React from "react";
+import { renderHook, act } from "@testing-library/react";
+import { useZMKNotification } from "../src/useZMKNotification";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+/**
+ * Render a hook with the zmkApp read from a variable, so tests can swap it
+ */
+function renderWithApp<T>(initial: UseZMKAppReturn, hook: () => T) {
+  let zmkApp = initial;
+  const rendered = renderHook(hook, {
+    wrapper: ({ children }) => (
+      <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+    ),
+  });
+  return {
+    ...rendered,
+    setApp: (next: UseZMKAppReturn) => {
+      zmkApp = next;
+      rendered.rerender();
+    },
+  };
+}
+
+function subscriptions(zmkApp: UseZMKAppReturn) {
+  return (zmkApp.onNotification as jest.Mock).mock.calls.map(
+    ([subscription]) => subscription
+  );
+}
+
+describe("useZMKNotification", () => {
+  it("should not subscribe when not connected", () => {
+    const zmkApp = createMockZMKApp();
+    const { result } = renderWithApp(zmkApp, () =>
+      useZMKNotification({ type: "core" })
+    );
+
+    expect(result.current).toBeNull();
+    expect(zmkApp.onNotification).not.toHaveBeenCalled();
+  });
+
+  it("should return the latest notification", () => {
+    const zmkApp = createConnectedMockZMKApp();
+    const { result } = renderWithApp(zmkApp, () =>
+      useZMKNotification({ type: "keymap", replay: "last" })
+    );
+
+    const [subscription] = subscriptions(zmkApp);
+    expect(subscription).toMatchObject({ type: "keymap", replay: "last" });
+    act(() => {
+      subscription.callback({ unsavedChangesStatusChanged: true });
+    });
+
+    expect(result.current).toEqual({ unsavedChangesStatusChanged: true });
+  });
+
+  it("should return the selected value and skip undefined selections", () => {
+    const zmkApp = createConnectedMockZMKApp();
+    const { result } = renderWithApp(zmkApp, () =>
+      useZMKNotification(
+        { type: "core" },
+        (notification) => notification.lockStateChanged
+      )
+    );
+
+    const [subscription] = subscriptions(zmkApp);
+    act(() => {
+      subscription.callback({ lockStateChanged: 1 });
+    });
+    expect(result.current).toBe(1);
+
+    act(() => {
+      subscription.callback({});
+    });
+    expect(result.current).toBe(1);
+  });
+
+  it("should subscribe to custom notifications by identifier", () => {
+    const zmkApp = createConnectedMockZMKApp({
+      subsystems: ["other", "settings"],
+    });
+    const { result } = renderWithApp(zmkApp, () =>
+      useZMKNotification(
+        { type: "custom", identifier: "settings" },
+        (notification) => notification.payload[0]
+      )
+    );
+
+    const [subscription] = subscriptions(zmkApp);
+    expect(subscription).toMatchObject({ type: "custom", subsystemIndex: 1 });
+    act(() => {
+      subscription.callback({
+        subsystemIndex: 1,
+        payload: new Uint8Array([7]),
+      });
+    });
+
+    expect(result.current).toBe(7);
+  });
+
+  it("should not subscribe when the device lacks the subsystem", () => {
+    const zmkApp = createConnectedMockZMKApp({ subsystems: ["other"] });
+    renderWithApp(zmkApp, () =>
+      useZMKNotification({ type: "custom", identifier: "settings" })
+    );
+
+    expect(zmkApp.onNotification).not.toHaveBeenCalled();
+  });
+
+  it("should not resubscribe when the selector changes", () => {
+    const zmkApp = createConnectedMockZMKApp();
+    const { result, rerender } = renderWithApp(zmkApp, () =>
+      useZMKNotification({ type: "core" }, (notification) => ({
+        ...notification,
+      }))
+    );
+
+    rerender();
+    rerender();
+    expect(zmkApp.onNotification).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      subscriptions(zmkApp)[0].callback({ lockStateChanged: 0 });
+    });
+    expect(result.current).toEqual({ lockStateChanged: 0 });
+  });
+
+  it("should reset and resubscribe across reconnects", () => {
+    const first = createConnectedMockZMKApp();
+    const unsubscribe = jest.fn();
+    (first.onNotification as jest.Mock).mockReturnValue(unsubscribe);
+    const { result, setApp } = renderWithApp(first, () =>
+      useZMKNotification({ type: "core" })
+    );
+    act(() => {
+      subscriptions(first)[0].callback({ lockStateChanged: 1 });
+    });
+    expect(result.current).not.toBeNull();
+
+    // Connection lost
+    setApp(createMockZMKApp());
+    expect(result.current).toBeNull();
+    expect(unsubscribe).toHaveBeenCalled();
+
+    // Connected again
+    const second = createConnectedMockZMKApp();
+    setApp(second);
+    expect(second.onNotification).toHaveBeenCalledTimes(1);
+    act(() => {
+      subscriptions(second)[0].callback({ lockStateChanged: 0 });
+    });
+    expect(result.current).toEqual({ lockStateChanged: 0 });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for useZMKSubsystem hook
+ */
+
+import React from "react";
+import { renderHook, act } from "@testing-library/react";
+import { useZMKSubsystem } from "../src/useZMKSubsystem";
+import { ZMKCustomSubsystemError } from "../src/ZMKCustomSubsystem";
+import {
+  ZMKAppProvider,
+  createConnectedMockZMKApp,
+  createMockZMKApp,
+} from "../src/testing";
+import type { UseZMKAppReturn } from "../src/useZMKApp";
+import type { UseZMKSubsystemOptions } from "../src/useZMKSubsystem";
+
+// Mock the zmk-studio-ts-client
+jest.mock("@zmkfirmware/zmk-studio-ts-client", () => ({
+  call_rpc: jest.fn(),
+}));
+
+const { call_rpc } = require("@zmkfirmware/zmk-studio-ts-client");
+
+function renderSubsystemHook(
+  zmkApp: UseZMKAppReturn,
+  options?: UseZMKSubsystemOptions
+) {
+  return renderHook(() => useZMKSubsystem("settings", options), {
+    wrapper: ({ children }) => (
+      <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+    ),
+  });
+}
+
+describe("useZMKSubsystem", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should be unavailable when not connected", async () => {
+    const { result } = renderSubsystemHook(createMockZMKApp());
+
+    expect(result.current.subsystem).toBeNull();
+    expect(result.current.isAvailable).toBe(false);
+    await expect(result.current.call(new Uint8Array([1]))).rejects.toThrow(
+      ZMKCustomSubsystemError
+    );
+  });
+
+  it("should be unavailable when the device lacks the subsystem", () => {
+    const { result } = renderSubsystemHook(
+      createConnectedMockZMKApp({ subsystems: ["other"] })
+    );
+
+    expect(result.current.isAvailable).toBe(false);
+  });
+
+  it("should call the subsystem found by identifier", async () => {
+    const zmkApp = createConnectedMockZMKApp({
+      subsystems: ["other", "settings"],
+    });
+    const payload = new Uint8Array([4, 2]);
+    call_rpc.mockResolvedValue({ custom: { call: { payload } } });
+
+    const { result } = renderSubsystemHook(zmkApp);
+
+    expect(result.current.isAvailable).toBe(true);
+    expect(result.current.subsystem?.getSubsystemIndex()).toBe(1);
+    await expect(result.current.call(new Uint8Array([1]))).resolves.toBe(
+      payload
+    );
+    expect(call_rpc).toHaveBeenCalledWith(zmkApp.state.connection, {
+      custom: { call: { subsystemIndex: 1, payload: new Uint8Array([1]) } },
+    });
+  });
+
+  it("should subscribe to notifications and track the last one", () => {
+    const zmkApp = createConnectedMockZMKApp({ subsystems: ["settings"] });
+    const unsubscribe = jest.fn();
+    (zmkApp.onNotification as jest.Mock).mockReturnValue(unsubscribe);
+    const onNotification = jest.fn();
+
+    const { result, unmount } = renderSubsystemHook(zmkApp, {
+      onNotification,
+    });
+
+    expect(zmkApp.onNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "custom", subsystemIndex: 0 })
+    );
+    const subscription = (zmkApp.onNotification as jest.Mock).mock.calls[0][0];
+    const notification = { subsystemIndex: 0, payload: new Uint8Array([9]) };
+    act(() => {
+      subscription.callback(notification);
+    });
+
+    expect(result.current.lastNotification).toBe(notification);
+    expect(onNotification).toHaveBeenCalledWith(notification);
+
+    unmount();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it("should recreate the client and resubscribe for a new connection", () => {
+    const first = createConnectedMockZMKApp({ subsystems: ["settings"] });
+    const unsubscribe = jest.fn();
+    (first.onNotification as jest.Mock).mockReturnValue(unsubscribe);
+    let zmkApp = first;
+
+    const { result, rerender } = renderHook(() => useZMKSubsystem("settings"), {
+      wrapper: ({ children }) => (
+        <ZMKAppProvider value={zmkApp}>{children}</ZMKAppProvider>
+      ),
+    });
+    const firstSubsystem = result.current.subsystem;
+    act(() => {
+      (first.onNotification as jest.Mock).mock.calls[0][0].callback({
+        subsystemIndex: 0,
+        payload: new Uint8Array([1]),
+      });
+    });
+    expect(result.current.lastNotification).not.toBeNull();
+
+    // Disconnect
+    zmkApp = createMockZMKApp();
+    rerender();
+    expect(result.current.subsystem).toBeNull();
+    expect(result.current.lastNotification).toBeNull();
+    expect(unsubscribe).toHaveBeenCalled();
+
+    // Reconnect
+    zmkApp = createConnectedMockZMKApp({ subsystems: ["settings"] });
+    rerender();
+    expect(result.current.subsystem).not.toBeNull();
+    expect(result.current.subsystem).not.toBe(firstSubsystem);
+    expect(zmkApp.onNotification).toHaveBeenCalledTimes(1);
+  });
+});
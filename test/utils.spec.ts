@@ -2,7 +2,12 @@
  * Tests for utility functions
  */
 
-import { withTimeout } from "../src/utils";
+import {
+  withTimeout,
+  ZMKTimeoutError,
+  configureZMKTimeouts,
+  getZMKTimeout,
+} from "../src/utils";
 
 describe("withTimeout", () => {
   it("should resolve when promise completes before timeout", async () => {
@@ -60,3 +65,69 @@ describe("withTimeout", () => {
     expect(result).toEqual(complexObject);
   });
 });
+
+describe("withTimeout options", () => {
+  afterEach(() => {
+    configureZMKTimeouts({ default: undefined, customCall: undefined });
+  });
+
+  it("should reject with ZMKTimeoutError describing the operation", async () => {
+    const promise = new Promise<never>(() => {});
+    const error = await withTimeout(promise, {
+      timeoutMs: 50,
+      operation: "getDeviceInfo",
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ZMKTimeoutError);
+    expect(error.name).toBe("ZMKTimeoutError");
+    expect(error.message).toBe("Operation timed out");
+    expect(error.operation).toBe("getDeviceInfo");
+    expect(error.timeoutMs).toBe(50);
+    expect(error.elapsedMs).toBeGreaterThanOrEqual(45);
+  });
+
+  it("should clear the timer when the promise settles", async () => {
+    const clearSpy = jest.spyOn(global, "clearTimeout");
+
+    await withTimeout(Promise.resolve("done"), 1000);
+
+    expect(clearSpy).toHaveBeenCalled();
+    clearSpy.mockRestore();
+  });
+
+  it("should reject with the abort reason when a signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = withTimeout(new Promise(() => {}), {
+      timeoutMs: 1000,
+      signal: [new AbortController().signal, controller.signal],
+    });
+
+    controller.abort(new Error("Cancelled"));
+
+    await expect(pending).rejects.toThrow("Cancelled");
+  });
+
+  it("should reject immediately with an AbortError for an aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      withTimeout(Promise.resolve("late"), { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("should use configured per-operation defaults", async () => {
+    expect(getZMKTimeout("customCall")).toBe(5000);
+
+    configureZMKTimeouts({ default: 2000, customCall: 50 });
+
+    expect(getZMKTimeout("getLockState")).toBe(2000);
+    expect(getZMKTimeout("customCall")).toBe(50);
+    await expect(
+      withTimeout(new Promise(() => {}), { operation: "customCall" })
+    ).rejects.toMatchObject({ operation: "customCall", timeoutMs: 50 });
+
+    configureZMKTimeouts({ default: undefined });
+    expect(getZMKTimeout("getLockState")).toBe(5000);
+  });
+});